@@ -1,10 +1,17 @@
-import { ReactNode } from 'react';
+import { ReactNode, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
+import { NotificationsPanel } from '@/components/dashboard/NotificationsPanel';
+import { useUnreadNotificationCount } from '@/hooks/use-unread-notifications';
 import { 
   LogOut,
-  LayoutDashboard
+  LayoutDashboard,
+  BarChart3,
+  UserPlus,
+  Users,
+  Settings,
+  Bell
 } from 'lucide-react';
 import logo from '@/assets/logo.png';
 
@@ -13,8 +20,10 @@ interface AdminDashboardLayoutProps {
 }
 
 export function AdminDashboardLayout({ children }: AdminDashboardLayoutProps) {
-  const { profile, signOut } = useAuth();
+  const { profile, role, signOut } = useAuth();
   const navigate = useNavigate();
+  const [showNotifications, setShowNotifications] = useState(false);
+  const unreadCount = useUnreadNotificationCount();
 
   const handleSignOut = async () => {
     await signOut();
@@ -42,10 +51,53 @@ export function AdminDashboardLayout({ children }: AdminDashboardLayoutProps) {
                 Dashboard
               </Button>
             </Link>
+            {role === 'admin' && (
+              <>
+                <Link to="/admin/analytics">
+                  <Button variant="ghost" size="sm" className="gap-2 text-sidebar-foreground hover:bg-sidebar-accent">
+                    <BarChart3 className="h-4 w-4" />
+                    Analytics
+                  </Button>
+                </Link>
+                <Link to="/admin/users">
+                  <Button variant="ghost" size="sm" className="gap-2 text-sidebar-foreground hover:bg-sidebar-accent">
+                    <Users className="h-4 w-4" />
+                    Users
+                  </Button>
+                </Link>
+                <Link to="/admin/invitations">
+                  <Button variant="ghost" size="sm" className="gap-2 text-sidebar-foreground hover:bg-sidebar-accent">
+                    <UserPlus className="h-4 w-4" />
+                    Invitations
+                  </Button>
+                </Link>
+                <Link to="/admin/settings">
+                  <Button variant="ghost" size="sm" className="gap-2 text-sidebar-foreground hover:bg-sidebar-accent">
+                    <Settings className="h-4 w-4" />
+                    Settings
+                  </Button>
+                </Link>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="relative text-sidebar-foreground hover:bg-sidebar-accent"
+              onClick={() => setShowNotifications(!showNotifications)}
+            >
+              <Bell className="h-5 w-5" />
+              {unreadCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-accent text-xs text-accent-foreground px-1">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
+            </Button>
             <div className="flex items-center gap-3 pl-4 border-l border-sidebar-border">
               <div className="text-right">
                 <p className="text-sm font-medium">{profile?.full_name}</p>
-                <p className="text-xs text-sidebar-foreground/70">Administrator</p>
+                <p className="text-xs text-sidebar-foreground/70">
+                  {role === 'reviewer' ? 'Reviewer' : 'Administrator'}
+                </p>
               </div>
               <Button 
                 variant="ghost" 
@@ -64,6 +116,11 @@ export function AdminDashboardLayout({ children }: AdminDashboardLayoutProps) {
       <main className="container py-8">
         {children}
       </main>
+
+      {/* Notifications Panel */}
+      {showNotifications && (
+        <NotificationsPanel onClose={() => setShowNotifications(false)} />
+      )}
     </div>
   );
 }
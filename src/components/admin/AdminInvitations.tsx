@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, Mail, Copy, RefreshCw, Ban, UserPlus } from 'lucide-react';
+
+interface Invitation {
+  id: string;
+  email: string;
+  token: string;
+  expires_at: string;
+  last_sent_at: string;
+  redeemed_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+type InvitationState = 'active' | 'redeemed' | 'revoked' | 'expired';
+
+const stateConfig: Record<InvitationState, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'status-in-review' },
+  redeemed: { label: 'Redeemed', className: 'status-approved' },
+  revoked: { label: 'Revoked', className: 'status-rejected' },
+  expired: { label: 'Expired', className: 'status-pending' },
+};
+
+const getInvitationState = (invitation: Invitation): InvitationState => {
+  if (invitation.redeemed_at) return 'redeemed';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at) <= new Date()) return 'expired';
+  return 'active';
+};
+
+const getInviteLink = (token: string) => `${window.location.origin}/admin/login?invite=${token}`;
+
+export function AdminInvitations() {
+  const { user } = useAuth();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, []);
+
+  const fetchInvitations = async () => {
+    const { data, error } = await supabase
+      .from('admin_invitations')
+      .select('id, email, token, expires_at, last_sent_at, redeemed_at, revoked_at, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching invitations:', error);
+    } else {
+      setInvitations(data || []);
+    }
+    setLoading(false);
+  };
+
+  const copyLink = async (invitation: Invitation) => {
+    await navigator.clipboard.writeText(getInviteLink(invitation.token));
+    toast.success(`Invite link for ${invitation.email} copied to clipboard`);
+  };
+
+  const openEmail = (invitation: Invitation) => {
+    const subject = encodeURIComponent('Admin access to the e-Crime Bureau project portal');
+    const body = encodeURIComponent(
+      `You have been invited to become an administrator. Create your account using this link before ${format(new Date(invitation.expires_at), 'PPP')}:\n\n${getInviteLink(invitation.token)}`
+    );
+    window.location.href = `mailto:${invitation.email}?subject=${subject}&body=${body}`;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !email.trim()) return;
+
+    setCreating(true);
+    const { data, error } = await supabase
+      .from('admin_invitations')
+      .insert({ email: email.trim().toLowerCase(), invited_by: user.id })
+      .select('id, email, token, expires_at, last_sent_at, redeemed_at, revoked_at, created_at')
+      .single();
+
+    if (error) {
+      toast.error('Failed to create invitation: ' + error.message);
+    } else {
+      setInvitations([data, ...invitations]);
+      setEmail('');
+      await copyLink(data);
+    }
+    setCreating(false);
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    setBusyId(invitation.id);
+    const { data, error } = await supabase.rpc('reissue_admin_invitation', {
+      _invitation_id: invitation.id,
+    });
+
+    if (error) {
+      toast.error('Failed to re-send invitation: ' + error.message);
+    } else {
+      setInvitations(invitations.map(i => (i.id === data.id ? data : i)));
+      openEmail(data);
+    }
+    setBusyId(null);
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    setBusyId(invitation.id);
+    const revokedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('admin_invitations')
+      .update({ revoked_at: revokedAt })
+      .eq('id', invitation.id);
+
+    if (error) {
+      toast.error('Failed to revoke invitation: ' + error.message);
+    } else {
+      toast.success('Invitation revoked');
+      setInvitations(invitations.map(i =>
+        i.id === invitation.id ? { ...i, revoked_at: revokedAt } : i
+      ));
+    }
+    setBusyId(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Issue Invitation */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Invite an Administrator
+          </CardTitle>
+          <CardDescription>
+            Invitations are single-use and expire after 7 days. The link is copied to your clipboard once created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="email"
+                placeholder="colleague@organization.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="pl-10"
+                required
+              />
+            </div>
+            <Button type="submit" disabled={creating || !email.trim()}>
+              {creating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                'Create Invitation'
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Invitations Table */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Sent</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-12 text-muted-foreground">
+                      No invitations issued yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  invitations.map((invitation) => {
+                    const state = getInvitationState(invitation);
+                    const config = stateConfig[state];
+                    const isBusy = busyId === invitation.id;
+                    const canManage = state === 'active' || state === 'expired';
+                    return (
+                      <TableRow key={invitation.id}>
+                        <TableCell className="font-medium">{invitation.email}</TableCell>
+                        <TableCell>
+                          <Badge className={config.className}>{config.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {format(new Date(invitation.last_sent_at), 'MMM d, yyyy')}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {state === 'redeemed' && invitation.redeemed_at
+                            ? `Used ${format(new Date(invitation.redeemed_at), 'MMM d, yyyy')}`
+                            : format(new Date(invitation.expires_at), 'MMM d, yyyy')}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canManage && (
+                            <div className="flex justify-end gap-1">
+                              {state === 'active' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => copyLink(invitation)}
+                                  disabled={isBusy}
+                                >
+                                  <Copy className="h-4 w-4 mr-1" />
+                                  Copy Link
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleResend(invitation)}
+                                disabled={isBusy}
+                              >
+                                <RefreshCw className="h-4 w-4 mr-1" />
+                                Re-send
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRevoke(invitation)}
+                                disabled={isBusy}
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Ban className="h-4 w-4 mr-1" />
+                                Revoke
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -1,5 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/lib/auth';
 import { supabase } from '@/integrations/supabase/client';
+import type { Enums } from '@/integrations/supabase/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -18,10 +21,49 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
-import { format } from 'date-fns';
-import { Eye, Loader2, Search, Filter } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { toast } from 'sonner';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import {
+  Eye,
+  Loader2,
+  Search,
+  Filter,
+  RotateCcw,
+  Archive,
+  ArchiveRestore,
+  UserCheck,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  AlarmClock,
+  X,
+  List,
+  Columns3,
+} from 'lucide-react';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+import { useAdmins } from '@/hooks/use-admins';
+import { REQUEST_EXPORT_COLUMNS, useRequestExport } from '@/hooks/use-request-export';
+import type { ExportFormat } from '@/lib/request-export';
+import { getPriorityConfig, getSlaState, SLA_STATE_CONFIG, type RequestPriority } from '@/lib/request-sla';
+import { ExportMenu } from './ExportMenu';
+import { RequestBoard } from './RequestBoard';
+import { RequestBulkActions } from './RequestBulkActions';
+import { BulkResultsDialog, type BulkResult } from './BulkResultsDialog';
 import { RequestDetailDialog } from './RequestDetailDialog';
+import { StatusCommentDialog } from './StatusCommentDialog';
 
 interface ProjectRequest {
   id: string;
@@ -33,18 +75,89 @@ interface ProjectRequest {
   expected_outcomes: string;
   estimated_duration: string | null;
   key_dependencies: string | null;
-  confidentiality_level: string;
+  confidentiality_level: Enums<'confidentiality_level'>;
   status: string;
   created_at: string;
-  submitter_name?: string;
-  submitter_email?: string;
+  updated_at: string;
+  resubmission_of: string | null;
+  archived_at: string | null;
+  assigned_to: string | null;
+  priority: RequestPriority;
+  first_response_due_at: string | null;
+  first_responded_at: string | null;
+  submitted_at: string | null;
+  submitter_name: string | null;
+  submitter_email: string | null;
+  comment_count: number | null;
+  last_status_change_at: string | null;
+  decided_at: string | null;
+  previous_rejection?: PreviousRejection;
+}
+
+interface PreviousRejection {
+  comment: string | null;
+  rejected_at: string;
+}
+
+interface RequestScore {
+  weighted_score: number;
+  reviewer_count: number;
 }
 
-const statusConfig: Record<string, { label: string; className: string }> = {
-  pending: { label: 'Pending', className: 'status-pending' },
-  in_review: { label: 'In Review', className: 'status-in-review' },
-  approved: { label: 'Approved', className: 'status-approved' },
-  rejected: { label: 'Rejected', className: 'status-rejected' },
+interface SearchSnippet {
+  matched_in: string;
+  snippet: string;
+}
+
+// Best match first while searching, newest first otherwise
+type SortKey = 'relevance' | 'title' | 'created_at' | 'weighted_score';
+
+const PAGE_SIZE = 20;
+
+// The board shows every matching request at once rather than a page of them, up to this many
+const BOARD_LIMIT = 200;
+
+// Computed columns resolved by the database alongside each row. Exports run the same
+// query as the table, so it selects everything an export needs.
+const REQUEST_COLUMNS = REQUEST_EXPORT_COLUMNS;
+
+const EXPORT_BATCH_SIZE = 1000;
+
+// Commas and parentheses are PostgREST filter syntax, so keep them out of free-text terms
+const sanitizeTerm = (term: string) => term.trim().replace(/[,()%]/g, ' ');
+
+// Search matches come back wrapped in these control characters rather than HTML tags
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+const renderSnippet = (snippet: string) =>
+  snippet.split(HIGHLIGHT_START).map((part, i) => {
+    const [match, rest] = part.split(HIGHLIGHT_END);
+    if (rest === undefined) return <span key={i}>{part}</span>;
+    return (
+      <span key={i}>
+        <mark className="rounded-sm bg-warning/30 px-0.5 text-foreground">{match}</mark>
+        {rest}
+      </span>
+    );
+  });
+
+const snippetSources: Record<string, string> = {
+  comments: 'In comments',
+  attachments: 'In attachments',
+};
+
+// First, last and the pages around the current one, with gaps in between
+const getPageNumbers = (current: number, total: number): (number | 'gap')[] => {
+  const pages: (number | 'gap')[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== 'gap') {
+      pages.push('gap');
+    }
+  }
+  return pages;
 };
 
 const typeLabels: Record<string, string> = {
@@ -56,77 +169,607 @@ const typeLabels: Record<string, string> = {
   'other': 'Other',
 };
 
+const withCoReviewer = (map: Record<string, string[]>, requestId: string, userId: string) => ({
+  ...map,
+  [requestId]: map[requestId]?.includes(userId) ? map[requestId] : [...(map[requestId] ?? []), userId],
+});
+
+const withoutCoReviewer = (map: Record<string, string[]>, requestId: string, userId: string) => ({
+  ...map,
+  [requestId]: (map[requestId] ?? []).filter(id => id !== userId),
+});
+
 export function AllRequests() {
+  const { user, role } = useAuth();
+  // Reviewers only see the requests assigned to them and can't change them from here
+  const isAdmin = role === 'admin';
   const [requests, setRequests] = useState<ProjectRequest[]>([]);
+  const [coReviewers, setCoReviewers] = useState<Record<string, string[]>>({});
+  const [scores, setScores] = useState<Record<string, RequestScore>>({});
+  const [snippets, setSnippets] = useState<Record<string, SearchSnippet>>({});
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'relevance', ascending: false });
+  const [page, setPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [stats, setStats] = useState({ total: 0, pending: 0, inReview: 0, approved: 0, rejected: 0, overdue: 0 });
   const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
   const [searchTerm, setSearchTerm] = useState('');
+  const [submitterTerm, setSubmitterTerm] = useState('');
+  const [debouncedTerms, setDebouncedTerms] = useState({ search: '', submitter: '' });
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [confidentialityFilter, setConfidentialityFilter] = useState<string>('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [view, setView] = useState<'table' | 'board'>('table');
+  const [archivingId, setArchivingId] = useState<string | null>(null);
+  const [assigneeFilter, setAssigneeFilter] = useState<'all' | 'me' | 'unassigned'>('all');
+  const [assigning, setAssigning] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<ProjectRequest | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkResults, setBulkResults] = useState<BulkResult[] | null>(null);
+  const [pendingTransition, setPendingTransition] = useState<{ requestId: string; toStatus: string } | null>(null);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  const { statuses, getStatusConfig, getNextTransitions } = useRequestWorkflow();
+  const { getAdminName } = useAdmins();
+  const { cleared, exportRequests } = useRequestExport();
+  const [exporting, setExporting] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedRequestId = searchParams.get('request');
+  const requestsRef = useRef(requests);
+  const latestFetchRef = useRef(0);
 
   useEffect(() => {
-    fetchRequests();
+    requestsRef.current = requests;
+  }, [requests]);
+
+  const fetchStats = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_request_stats');
+
+    if (error) {
+      console.error('Error fetching request stats:', error);
+      return;
+    }
+
+    const countFor = (status: string) => data.find(s => s.status === status)?.request_count ?? 0;
+    setStats({
+      total: data.reduce((sum, s) => sum + s.request_count, 0),
+      pending: countFor('pending'),
+      inReview: countFor('in_review'),
+      approved: countFor('approved'),
+      rejected: countFor('rejected'),
+      overdue: data.reduce((sum, s) => sum + s.overdue_count, 0),
+    });
   }, []);
 
-  const fetchRequests = async () => {
+  const fetchCoReviewers = useCallback(async (requestIds: string[]) => {
+    if (requestIds.length === 0) return;
+
     const { data, error } = await supabase
-      .from('project_requests')
-      .select('*')
+      .from('request_co_reviewers')
+      .select('request_id, user_id')
+      .in('request_id', requestIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching co-reviewers:', error);
+      return;
+    }
+
+    setCoReviewers(prev => data.reduce(
+      (map, row) => withCoReviewer(map, row.request_id, row.user_id),
+      { ...prev, ...Object.fromEntries(requestIds.map(id => [id, []])) } as Record<string, string[]>
+    ));
+  }, []);
+
+  const fetchScores = useCallback(async (requestIds: string[]) => {
+    if (requestIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('request_score_summaries')
+      .select('request_id, weighted_score, reviewer_count')
+      .in('request_id', requestIds);
+
+    if (error) {
+      console.error('Error fetching scores:', error);
+      return;
+    }
+
+    setScores(prev => {
+      const map = { ...prev };
+      for (const id of requestIds) delete map[id];
+      for (const row of data) {
+        if (row.request_id && row.weighted_score !== null) {
+          map[row.request_id] = { weighted_score: row.weighted_score, reviewer_count: row.reviewer_count ?? 0 };
+        }
+      }
+      return map;
+    });
+  }, []);
+
+  const fetchRejections = useCallback(async (requestIds: string[]) => {
+    const rejections: Record<string, PreviousRejection> = {};
+    if (requestIds.length === 0) return rejections;
+
+    const { data, error } = await supabase
+      .from('request_status_history')
+      .select('request_id, comment, created_at')
+      .in('request_id', requestIds)
+      .eq('to_status', 'rejected')
       .order('created_at', { ascending: false });
 
+    if (error) {
+      console.error('Error fetching rejections:', error);
+      return rejections;
+    }
+
+    for (const entry of data) {
+      if (!rejections[entry.request_id]) {
+        rejections[entry.request_id] = { comment: entry.comment, rejected_at: entry.created_at };
+      }
+    }
+    return rejections;
+  }, []);
+
+  // Resubmissions are reviewed against the reason the earlier request was turned down
+  const withRejections = useCallback(async (rows: ProjectRequest[]) => {
+    const rejections = await fetchRejections(
+      rows.map(r => r.resubmission_of).filter(Boolean) as string[]
+    );
+    return rows.map(r => ({
+      ...r,
+      previous_rejection: r.resubmission_of ? rejections[r.resubmission_of] : undefined,
+    }));
+  }, [fetchRejections]);
+
+  const openLinkedRequest = useCallback(async (requestId: string) => {
+    const { data, error } = await supabase
+      .from('project_requests')
+      .select(REQUEST_COLUMNS)
+      .eq('id', requestId)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error fetching linked request:', error);
+      return;
+    }
+
+    const [linked] = await withRejections([data]);
+    setSelectedRequest(linked);
+    fetchCoReviewers([linked.id]);
+  }, [withRejections, fetchCoReviewers]);
+
+  // "Assigned to me" also covers requests the current admin co-reviews
+  const fetchCoReviewedIds = useCallback(async () => {
+    if (assigneeFilter !== 'me' || !user) return [];
+
+    const { data } = await supabase
+      .from('request_co_reviewers')
+      .select('request_id')
+      .eq('user_id', user.id);
+    return (data || []).map(r => r.request_id);
+  }, [assigneeFilter, user]);
+
+  // The current view as a query: filters, search and sort order. The table pages through
+  // it and exports read all of it.
+  const buildRequestQuery = useCallback((coReviewedIds: string[]) => {
+    // Searching swaps the table for ranked full-text matches; every other filter still applies on top
+    const searchQuery = debouncedTerms.search;
+    let query = searchQuery
+      ? supabase.rpc('search_requests', { _query: searchQuery }, { count: 'exact' }).select(REQUEST_COLUMNS)
+      : supabase.from('project_requests').select(REQUEST_COLUMNS, { count: 'exact' });
+
+    query = showArchived ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
+    if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+    if (typeFilter !== 'all') query = query.contains('project_types', [typeFilter]);
+    if (confidentialityFilter !== 'all') {
+      query = query.eq('confidentiality_level', confidentialityFilter as Enums<'confidentiality_level'>);
+    }
+    if (dateFrom) query = query.gte('created_at', startOfDay(parseISO(dateFrom)).toISOString());
+    if (dateTo) query = query.lte('created_at', endOfDay(parseISO(dateTo)).toISOString());
+    if (assigneeFilter === 'unassigned') query = query.is('assigned_to', null);
+    if (debouncedTerms.submitter) {
+      query = query.or(
+        `submitter_name.ilike.%${debouncedTerms.submitter}%,submitter_email.ilike.%${debouncedTerms.submitter}%`
+      );
+    }
+
+    if (assigneeFilter === 'me' && user) {
+      query = coReviewedIds.length > 0
+        ? query.or(`assigned_to.eq.${user.id},id.in.(${coReviewedIds.join(',')})`)
+        : query.eq('assigned_to', user.id);
+    }
+
+    // Relevance is the order search_requests already returns its rows in
+    const sortKey = sort.key === 'relevance' && !searchQuery ? 'created_at' : sort.key;
+    if (sortKey !== 'relevance') {
+      query = query.order(sortKey, { ascending: sort.ascending, nullsFirst: false });
+      if (sortKey !== 'created_at') query = query.order('created_at', { ascending: false });
+    }
+    return query;
+  }, [
+    debouncedTerms,
+    showArchived,
+    statusFilter,
+    typeFilter,
+    confidentialityFilter,
+    dateFrom,
+    dateTo,
+    assigneeFilter,
+    user,
+    sort,
+  ]);
+
+  const fetchSnippets = useCallback(async (searchQuery: string, requestIds: string[]) => {
+    if (!searchQuery || requestIds.length === 0) {
+      setSnippets({});
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_search_snippets', {
+      _query: searchQuery,
+      _request_ids: requestIds,
+    });
+
+    if (error) {
+      console.error('Error fetching search snippets:', error);
+      setSnippets({});
+      return;
+    }
+
+    setSnippets(Object.fromEntries(data.map(row => [row.request_id, row])));
+  }, []);
+
+  const fetchRequests = useCallback(async () => {
+    // Filters can change while a query is in flight; only the newest one gets to render
+    const fetchId = ++latestFetchRef.current;
+    setFetching(true);
+    const searchQuery = debouncedTerms.search;
+    const pageSize = view === 'board' ? BOARD_LIMIT : PAGE_SIZE;
+    const from = view === 'board' ? 0 : (page - 1) * PAGE_SIZE;
+    const coReviewedIds = await fetchCoReviewedIds();
+    const { data, error, count } = await buildRequestQuery(coReviewedIds).range(from, from + pageSize - 1);
+    if (fetchId !== latestFetchRef.current) return;
+
     if (error) {
       console.error('Error fetching requests:', error);
     } else if (data) {
-      // Fetch submitter info for each request
-      const requestsWithSubmitters = await Promise.all(
-        data.map(async (request) => {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('full_name, email')
-            .eq('user_id', request.user_id)
-            .single();
-          return {
-            ...request,
-            submitter_name: profile?.full_name || 'Unknown',
-            submitter_email: profile?.email || '',
-          };
-        })
-      );
-      setRequests(requestsWithSubmitters);
+      // The page can run past the end when rows disappear from under it
+      if (data.length === 0 && page > 1 && (count ?? 0) > 0) {
+        setPage(Math.ceil((count ?? 0) / PAGE_SIZE));
+        return;
+      }
+
+      const ids = data.map(r => r.id);
+      const [rows] = await Promise.all([
+        withRejections(data),
+        fetchCoReviewers(ids),
+        fetchScores(ids),
+        fetchSnippets(searchQuery, ids),
+      ]);
+      if (fetchId !== latestFetchRef.current) return;
+      setRequests(rows);
+      setTotalCount(count ?? 0);
     }
     setLoading(false);
+    setFetching(false);
+  }, [
+    debouncedTerms.search,
+    view,
+    page,
+    fetchCoReviewedIds,
+    buildRequestQuery,
+    withRejections,
+    fetchCoReviewers,
+    fetchScores,
+    fetchSnippets,
+  ]);
+
+  // Reads the whole filtered view in batches, straight into the file rather than the table
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExporting(true);
+    const coReviewedIds = await fetchCoReviewedIds();
+    const rows: ProjectRequest[] = [];
+    for (let from = 0; ; from += EXPORT_BATCH_SIZE) {
+      const { data, error } = await buildRequestQuery(coReviewedIds).range(from, from + EXPORT_BATCH_SIZE - 1);
+      if (error) {
+        toast.error('Failed to export requests: ' + error.message);
+        setExporting(false);
+        return;
+      }
+      rows.push(...data);
+      if (data.length < EXPORT_BATCH_SIZE) break;
+    }
+
+    await exportRequests(rows, exportFormat);
+    toast.success(`Exported ${rows.length} request${rows.length === 1 ? '' : 's'}`);
+    setExporting(false);
   };
 
-  const handleStatusChange = async (requestId: string, newStatus: string) => {
-    const validStatus = newStatus as "pending" | "in_review" | "approved" | "rejected";
+  useEffect(() => {
+    fetchStats();
+
+    // Keep the table in step with status changes and submissions made elsewhere. Rows on
+    // the current page are patched in place; anything else may now belong on this page,
+    // so the page is reloaded.
+    const channel = supabase
+      .channel('all-requests')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'project_requests' },
+        () => {
+          setRefreshKey(k => k + 1);
+          fetchStats();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'project_requests' },
+        (payload) => {
+          const updated = payload.new as ProjectRequest;
+          fetchStats();
+          // A draft that has just been submitted shows up as an update to a row we've never seen
+          if (!requestsRef.current.some(r => r.id === updated.id)) {
+            if (updated.status !== 'draft') setRefreshKey(k => k + 1);
+            return;
+          }
+          setRequests(prev => prev.map(r => (r.id === updated.id ? { ...r, ...updated } : r)));
+          setSelectedRequest(prev => (prev?.id === updated.id ? { ...prev, ...updated } : prev));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'project_requests' },
+        (payload) => {
+          const deletedId = (payload.old as { id: string }).id;
+          setSelectedRequest(prev => (prev?.id === deletedId ? null : prev));
+          setRefreshKey(k => k + 1);
+          fetchStats();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'request_co_reviewers' },
+        (payload) => {
+          const row = payload.new as { request_id: string; user_id: string };
+          setCoReviewers(prev => withCoReviewer(prev, row.request_id, row.user_id));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'request_co_reviewers' },
+        (payload) => {
+          const row = payload.old as { request_id: string; user_id: string };
+          setCoReviewers(prev => withoutCoReviewer(prev, row.request_id, row.user_id));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'request_scores' },
+        (payload) => {
+          const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { request_id?: string };
+          if (row.request_id && requestsRef.current.some(r => r.id === row.request_id)) {
+            fetchScores([row.request_id]);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchStats, fetchScores]);
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedTerms({ search: sanitizeTerm(searchTerm), submitter: sanitizeTerm(submitterTerm) });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, submitterTerm]);
+
+  // Any change to the filters or sort order starts again from the first page
+  useEffect(() => {
+    setPage(1);
+    setSelectedIds([]);
+  }, [
+    debouncedTerms,
+    statusFilter,
+    typeFilter,
+    confidentialityFilter,
+    dateFrom,
+    dateTo,
+    showArchived,
+    assigneeFilter,
+    sort,
+  ]);
+
+  // Selection only spans the rows in view
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [page, view]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests, refreshKey]);
+
+  // Open the request a notification linked to, even if it isn't on the current page
+  useEffect(() => {
+    if (!linkedRequestId) return;
+    openLinkedRequest(linkedRequestId);
+    setSearchParams({}, { replace: true });
+  }, [linkedRequestId, openLinkedRequest, setSearchParams]);
+
+  const handleStatusChange = (requestId: string, newStatus: string) => {
+    // A request opened from a notification may not be on the current page
+    const request = requests.find(r => r.id === requestId)
+      ?? (selectedRequest?.id === requestId ? selectedRequest : undefined);
+    if (!request) {
+      toast.error('Failed to update status: the request could not be found');
+      return;
+    }
+    if (request.status === newStatus) return;
+
+    const transition = getNextTransitions(request.status, 'admin').find(t => t.to_status === newStatus);
+    if (transition?.requires_comment) {
+      setPendingTransition({ requestId, toStatus: newStatus });
+    } else {
+      applyStatusChange(requestId, newStatus);
+    }
+  };
+
+  const applyStatusChange = async (requestId: string, newStatus: string, comment?: string) => {
+    setUpdatingStatus(true);
+    const { error } = await supabase.rpc('transition_request_status', {
+      _request_id: requestId,
+      _to_status: newStatus,
+      _comment: comment,
+    });
+
+    if (error) {
+      toast.error('Failed to update status: ' + error.message);
+    } else {
+      setRequests(prev => prev.map(r =>
+        r.id === requestId ? { ...r, status: newStatus } : r
+      ));
+      setSelectedRequest(prev => (prev?.id === requestId ? { ...prev, status: newStatus } : prev));
+      setPendingTransition(null);
+      fetchStats();
+    }
+    setUpdatingStatus(false);
+  };
+
+  const handleArchiveToggle = async (request: ProjectRequest, archive: boolean) => {
+    setArchivingId(request.id);
+    const { data, error } = await supabase
+      .from('project_requests')
+      .update({ archived_at: archive ? new Date().toISOString() : null })
+      .eq('id', request.id)
+      .select('archived_at')
+      .single();
+
+    if (error) {
+      toast.error(`Failed to ${archive ? 'archive' : 'restore'} request: ${error.message}`);
+    } else {
+      toast.success(archive ? 'Request archived' : 'Request restored');
+      // It moves to the other tab
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+      setTotalCount(c => Math.max(0, c - 1));
+      setSelectedRequest(prev => (prev?.id === request.id ? { ...prev, archived_at: data.archived_at } : prev));
+      fetchStats();
+    }
+    setArchivingId(null);
+  };
+
+  const handleAssign = async (requestId: string, userId: string | null) => {
+    setAssigning(true);
+    const { data, error } = await supabase
+      .from('project_requests')
+      .update({ assigned_to: userId })
+      .eq('id', requestId)
+      .select('assigned_to, assigned_at')
+      .single();
+
+    if (error) {
+      toast.error('Failed to assign reviewer: ' + error.message);
+    } else {
+      toast.success(userId ? `Assigned to ${getAdminName(userId)}` : 'Reviewer unassigned');
+      setRequests(prev => prev.map(r => (r.id === requestId ? { ...r, ...data } : r)));
+      setSelectedRequest(prev => (prev?.id === requestId ? { ...prev, ...data } : prev));
+      // The lead is dropped from the co-reviewers server-side
+      if (userId) setCoReviewers(prev => withoutCoReviewer(prev, requestId, userId));
+    }
+    setAssigning(false);
+  };
+
+  const handlePriorityChange = async (requestId: string, priority: RequestPriority) => {
     const { error } = await supabase
       .from('project_requests')
-      .update({ status: validStatus })
+      .update({ priority })
       .eq('id', requestId);
 
-    if (!error) {
-      setRequests(requests.map(r => 
-        r.id === requestId ? { ...r, status: newStatus } : r
-      ));
+    if (error) {
+      toast.error('Failed to update priority: ' + error.message);
+    } else {
+      setRequests(prev => prev.map(r => (r.id === requestId ? { ...r, priority } : r)));
+      setSelectedRequest(prev => (prev?.id === requestId ? { ...prev, priority } : prev));
     }
   };
 
-  const filteredRequests = requests.filter((request) => {
-    const matchesSearch = 
-      request.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      request.submitter_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      request.submitter_email?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = statusFilter === 'all' || request.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  const handleAddCoReviewer = async (requestId: string, userId: string) => {
+    if (!user) return;
 
-  const stats = {
-    total: requests.length,
-    pending: requests.filter(r => r.status === 'pending').length,
-    inReview: requests.filter(r => r.status === 'in_review').length,
-    approved: requests.filter(r => r.status === 'approved').length,
-    rejected: requests.filter(r => r.status === 'rejected').length,
+    setAssigning(true);
+    const { error } = await supabase
+      .from('request_co_reviewers')
+      .insert({ request_id: requestId, user_id: userId, added_by: user.id });
+
+    if (error) {
+      toast.error('Failed to add co-reviewer: ' + error.message);
+    } else {
+      setCoReviewers(prev => withCoReviewer(prev, requestId, userId));
+    }
+    setAssigning(false);
+  };
+
+  const handleRemoveCoReviewer = async (requestId: string, userId: string) => {
+    setAssigning(true);
+    const { error } = await supabase
+      .from('request_co_reviewers')
+      .delete()
+      .eq('request_id', requestId)
+      .eq('user_id', userId);
+
+    if (error) {
+      toast.error('Failed to remove co-reviewer: ' + error.message);
+    } else {
+      setCoReviewers(prev => withoutCoReviewer(prev, requestId, userId));
+    }
+    setAssigning(false);
+  };
+
+  const isTerminal = (statusKey: string) => statuses.find(s => s.key === statusKey)?.is_terminal ?? false;
+  const slaState = (request: ProjectRequest) => getSlaState(request, isTerminal(request.status));
+
+  const activeSortKey = sort.key === 'relevance' && !debouncedTerms.search ? 'created_at' : sort.key;
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => (activeSortKey === key ? { key, ascending: !prev.ascending } : { key, ascending: key === 'title' }));
+  };
+
+  const sortIcon = (key: SortKey) => {
+    if (activeSortKey !== key) return <ArrowUpDown className="h-3.5 w-3.5" />;
+    return sort.ascending ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />;
+  };
+
+  const hasExtraFilters =
+    typeFilter !== 'all' || confidentialityFilter !== 'all' || !!dateFrom || !!dateTo || !!submitterTerm;
+
+  const clearExtraFilters = () => {
+    setTypeFilter('all');
+    setConfidentialityFilter('all');
+    setDateFrom('');
+    setDateTo('');
+    setSubmitterTerm('');
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const selectedRequests = requests.filter(r => selectedIds.includes(r.id));
+  const allSelected = requests.length > 0 && selectedRequests.length === requests.length;
+
+  const toggleSelected = (requestId: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, requestId] : prev.filter(id => id !== requestId)));
+  };
+
+  const handleBulkComplete = (results: BulkResult[]) => {
+    // The report lives here so it stays open when every row succeeds and the bar unmounts
+    setBulkResults(results);
+    // Keep the failures selected so they can be fixed up and retried
+    setSelectedIds(results.filter(r => !r.succeeded).map(r => r.request_id));
+    setRefreshKey(k => k + 1);
+    fetchStats();
   };
 
   if (loading) {
@@ -140,7 +783,7 @@ export function AllRequests() {
   return (
     <>
       {/* Stats Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">Total</CardTitle>
@@ -181,21 +824,59 @@ export function AllRequests() {
             <p className="text-2xl font-bold text-destructive">{stats.rejected}</p>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Overdue</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-warning">{stats.overdue}</p>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Filters */}
       <Card className="mb-6">
         <CardContent className="pt-6">
           <div className="flex flex-col sm:flex-row gap-4">
+            <Tabs
+              value={showArchived ? 'archived' : 'active'}
+              onValueChange={(value) => setShowArchived(value === 'archived')}
+            >
+              <TabsList>
+                <TabsTrigger value="active">Active</TabsTrigger>
+                <TabsTrigger value="archived" className="gap-2">
+                  <Archive className="h-4 w-4" />
+                  Archive
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={view}
+              onValueChange={(value) => value && setView(value as typeof view)}
+            >
+              <ToggleGroupItem value="table" aria-label="Table view" title="Table view">
+                <List className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="board" aria-label="Board view" title="Board view">
+                <Columns3 className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by title or submitter..."
+                placeholder='Search requests, comments and files... ("exact phrase", -exclude)'
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
               />
             </div>
+            {debouncedTerms.search && sort.key !== 'relevance' && (
+              <Button variant="ghost" onClick={() => setSort({ key: 'relevance', ascending: false })}>
+                Best match first
+              </Button>
+            )}
             <div className="flex items-center gap-2">
               <Filter className="h-4 w-4 text-muted-foreground" />
               <Select value={statusFilter} onValueChange={setStatusFilter}>
@@ -204,113 +885,414 @@ export function AllRequests() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="in_review">In Review</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="rejected">Rejected</SelectItem>
+                  {statuses
+                    .filter((s) => s.key !== 'draft')
+                    .map((s) => (
+                      <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={assigneeFilter}
+                onValueChange={(value) => setAssigneeFilter(value as typeof assigneeFilter)}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Reviewer" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Reviewers</SelectItem>
+                  <SelectItem value="me">Assigned to Me</SelectItem>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Project type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {Object.entries(typeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={confidentialityFilter} onValueChange={setConfidentialityFilter}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue placeholder="Confidentiality" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Confidentiality</SelectItem>
+                <SelectItem value="public">Public</SelectItem>
+                <SelectItem value="internal">Internal</SelectItem>
+                <SelectItem value="restricted">Restricted / NDA</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              max={dateTo || undefined}
+              className="w-[150px]"
+              aria-label="Submitted from"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              min={dateFrom || undefined}
+              className="w-[150px]"
+              aria-label="Submitted to"
+            />
+            <Input
+              placeholder="Submitter name or email"
+              value={submitterTerm}
+              onChange={(e) => setSubmitterTerm(e.target.value)}
+              className="w-[220px]"
+            />
+            {hasExtraFilters && (
+              <Button variant="ghost" size="sm" onClick={clearExtraFilters}>
+                <X className="h-4 w-4 mr-1" />
+                Clear
+              </Button>
+            )}
+            {isAdmin && (
+              <div className="ml-auto">
+                <ExportMenu
+                  label={`Export ${totalCount}`}
+                  exporting={exporting}
+                  masked={!cleared}
+                  onExport={handleExport}
+                />
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
-      {/* Requests Table */}
-      <Card>
-        <CardContent className="p-0">
-          <div className="overflow-x-auto">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Project Title</TableHead>
-                  <TableHead>Submitted By</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredRequests.length === 0 ? (
-                  <TableRow>
-                    <TableCell colSpan={6} className="text-center py-12 text-muted-foreground">
-                      No requests found
-                    </TableCell>
-                  </TableRow>
-                ) : (
-                  filteredRequests.map((request) => {
-                    const status = statusConfig[request.status] || statusConfig.pending;
-                    return (
-                      <TableRow key={request.id}>
-                        <TableCell className="font-medium max-w-[200px] truncate">
-                          {request.title}
-                        </TableCell>
-                        <TableCell>
-                          <div>
-                            <p className="font-medium text-sm">{request.submitter_name}</p>
-                            <p className="text-xs text-muted-foreground">{request.submitter_email}</p>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex flex-wrap gap-1 max-w-[150px]">
-                            {request.project_types.slice(0, 2).map((type) => (
-                              <Badge key={type} variant="secondary" className="text-xs">
-                                {typeLabels[type] || type}
-                              </Badge>
-                            ))}
-                            {request.project_types.length > 2 && (
-                              <Badge variant="secondary" className="text-xs">
-                                +{request.project_types.length - 2}
-                              </Badge>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-sm text-muted-foreground">
-                          {format(new Date(request.created_at), 'MMM d, yyyy')}
-                        </TableCell>
-                        <TableCell>
-                          <Select
-                            value={request.status}
-                            onValueChange={(value) => handleStatusChange(request.id, value)}
-                          >
-                            <SelectTrigger className="w-[120px]">
-                              <Badge className={status.className}>{status.label}</Badge>
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="pending">Pending</SelectItem>
-                              <SelectItem value="in_review">In Review</SelectItem>
-                              <SelectItem value="approved">Approved</SelectItem>
-                              <SelectItem value="rejected">Rejected</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setSelectedRequest(request)}
-                          >
-                            <Eye className="h-4 w-4 mr-1" />
-                            View
-                          </Button>
+      {view === 'board' ? (
+        <>
+          {/* Requests Board */}
+          {totalCount > BOARD_LIMIT && (
+            <p className="mb-3 text-sm text-muted-foreground">
+              Showing {BOARD_LIMIT} of {totalCount} requests. Narrow the filters to see the rest.
+            </p>
+          )}
+          <div className={`transition-opacity ${fetching ? 'opacity-60' : ''}`}>
+            <RequestBoard
+              requests={requests}
+              statusFilter={statusFilter}
+              disabled={updatingStatus || !isAdmin}
+              onOpen={(request) => setSelectedRequest(request)}
+              onStatusChange={handleStatusChange}
+            />
+          </div>
+        </>
+      ) : (
+        <>
+          {/* Requests Table */}
+          <Card>
+            <CardContent className="p-0">
+              {/* Bulk Actions */}
+              {selectedRequests.length > 0 && (
+                <RequestBulkActions
+                  requests={selectedRequests}
+                  onComplete={handleBulkComplete}
+                  onClear={() => setSelectedIds([])}
+                />
+              )}
+              <div className={`overflow-x-auto transition-opacity ${fetching ? 'opacity-60' : ''}`}>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {isAdmin && (
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={allSelected ? true : selectedRequests.length > 0 ? 'indeterminate' : false}
+                            onCheckedChange={(checked) => setSelectedIds(checked === true ? requests.map(r => r.id) : [])}
+                            disabled={requests.length === 0}
+                            aria-label="Select all requests on this page"
+                          />
+                        </TableHead>
+                      )}
+                      <TableHead>
+                        <button type="button" className="flex items-center gap-1" onClick={() => toggleSort('title')}>
+                          Project Title
+                          {sortIcon('title')}
+                        </button>
+                      </TableHead>
+                      <TableHead>Submitted By</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>
+                        <button type="button" className="flex items-center gap-1" onClick={() => toggleSort('created_at')}>
+                          Date
+                          {sortIcon('created_at')}
+                        </button>
+                      </TableHead>
+                      <TableHead>
+                        <button type="button" className="flex items-center gap-1" onClick={() => toggleSort('weighted_score')}>
+                          Score
+                          {sortIcon('weighted_score')}
+                        </button>
+                      </TableHead>
+                      <TableHead>Assignee</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={isAdmin ? 9 : 8} className="text-center py-12 text-muted-foreground">
+                          {showArchived ? 'No archived requests' : 'No requests found'}
                         </TableCell>
                       </TableRow>
-                    );
-                  })
-                )}
-              </TableBody>
-            </Table>
-          </div>
-        </CardContent>
-      </Card>
+                    ) : (
+                      requests.map((request) => {
+                        const status = getStatusConfig(request.status);
+                        const nextTransitions = isAdmin ? getNextTransitions(request.status, 'admin') : [];
+                        const priority = getPriorityConfig(request.priority);
+                        const sla = slaState(request);
+                        return (
+                          <TableRow key={request.id} data-state={selectedIds.includes(request.id) ? 'selected' : undefined}>
+                            {isAdmin && (
+                              <TableCell>
+                                <Checkbox
+                                  checked={selectedIds.includes(request.id)}
+                                  onCheckedChange={(checked) => toggleSelected(request.id, checked === true)}
+                                  aria-label={`Select ${request.title}`}
+                                />
+                              </TableCell>
+                            )}
+                            <TableCell className="max-w-[240px]">
+                              <p className="font-medium truncate">{request.title}</p>
+                              {snippets[request.id] && (
+                                <p className="mt-1 text-xs text-muted-foreground line-clamp-3 whitespace-normal">
+                                  {snippetSources[snippets[request.id].matched_in] && (
+                                    <span className="font-medium">{snippetSources[snippets[request.id].matched_in]}: </span>
+                                  )}
+                                  {renderSnippet(snippets[request.id].snippet)}
+                                </p>
+                              )}
+                              {(request.priority !== 'normal' || (sla && sla !== 'on_track')) && (
+                                <div className="mt-1 flex flex-wrap gap-1">
+                                  {request.priority !== 'normal' && (
+                                    <Badge className={`text-xs ${priority.className}`}>{priority.label}</Badge>
+                                  )}
+                                  {sla && sla !== 'on_track' && request.first_response_due_at && (
+                                    <Badge
+                                      className={`text-xs gap-1 ${SLA_STATE_CONFIG[sla].className}`}
+                                      title={`First response due ${format(new Date(request.first_response_due_at), 'PPp')}`}
+                                    >
+                                      <AlarmClock className="h-3 w-3" />
+                                      {SLA_STATE_CONFIG[sla].label}
+                                    </Badge>
+                                  )}
+                                </div>
+                              )}
+                              {request.resubmission_of && (
+                                <div className="mt-1 space-y-1">
+                                  <Badge variant="outline" className="text-xs gap-1">
+                                    <RotateCcw className="h-3 w-3" />
+                                    Resubmission
+                                  </Badge>
+                                  {request.previous_rejection?.comment && (
+                                    <p
+                                      className="text-xs text-muted-foreground line-clamp-2"
+                                      title={request.previous_rejection.comment}
+                                    >
+                                      Rejected: {request.previous_rejection.comment}
+                                    </p>
+                                  )}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div>
+                                <p className="font-medium text-sm">{request.submitter_name || 'Unknown'}</p>
+                                <p className="text-xs text-muted-foreground">{request.submitter_email}</p>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1 max-w-[150px]">
+                                {request.project_types.slice(0, 2).map((type) => (
+                                  <Badge key={type} variant="secondary" className="text-xs">
+                                    {typeLabels[type] || type}
+                                  </Badge>
+                                ))}
+                                {request.project_types.length > 2 && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    +{request.project_types.length - 2}
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {format(new Date(request.created_at), 'MMM d, yyyy')}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {scores[request.id] ? (
+                                <div>
+                                  <p className="font-medium">{scores[request.id].weighted_score.toFixed(2)}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {scores[request.id].reviewer_count} reviewer{scores[request.id].reviewer_count === 1 ? '' : 's'}
+                                  </p>
+                                </div>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {request.assigned_to ? (
+                                <span className="flex items-center gap-1.5">
+                                  {request.assigned_to === user?.id && (
+                                    <UserCheck className="h-3.5 w-3.5 text-accent" />
+                                  )}
+                                  {request.assigned_to === user?.id ? 'You' : getAdminName(request.assigned_to)}
+                                </span>
+                              ) : (
+                                <p className="text-muted-foreground">Unassigned</p>
+                              )}
+                              {(coReviewers[request.id]?.length ?? 0) > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  +{coReviewers[request.id].length} co-reviewer{coReviewers[request.id].length > 1 ? 's' : ''}
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={request.status}
+                                onValueChange={(value) => handleStatusChange(request.id, value)}
+                                disabled={nextTransitions.length === 0}
+                              >
+                                <SelectTrigger className="w-[130px]">
+                                  <Badge className={status.className}>{status.label}</Badge>
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={request.status}>{status.label}</SelectItem>
+                                  {nextTransitions.map((t) => (
+                                    <SelectItem key={t.id} value={t.to_status}>
+                                      {getStatusConfig(t.to_status).label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex items-center justify-end gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setSelectedRequest(request)}
+                                >
+                                  <Eye className="h-4 w-4 mr-1" />
+                                  View
+                                </Button>
+                                {isAdmin && (request.archived_at || isTerminal(request.status)) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleArchiveToggle(request, !request.archived_at)}
+                                    disabled={archivingId === request.id}
+                                    title={request.archived_at ? 'Restore' : 'Archive'}
+                                  >
+                                    {archivingId === request.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : request.archived_at ? (
+                                      <ArchiveRestore className="h-4 w-4" />
+                                    ) : (
+                                      <Archive className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Pagination */}
+              {totalCount > 0 && (
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-2 border-t px-4 py-3">
+                  <p className="text-sm text-muted-foreground whitespace-nowrap">
+                    Showing {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, totalCount)} of {totalCount}
+                  </p>
+                  {totalPages > 1 && (
+                    <Pagination className="mx-0 w-auto justify-end">
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            onClick={() => setPage(p => Math.max(1, p - 1))}
+                            className={page === 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                          />
+                        </PaginationItem>
+                        {getPageNumbers(page, totalPages).map((pageNumber, i) =>
+                          pageNumber === 'gap' ? (
+                            <PaginationItem key={`gap-${i}`}>
+                              <PaginationEllipsis />
+                            </PaginationItem>
+                          ) : (
+                            <PaginationItem key={pageNumber}>
+                              <PaginationLink
+                                isActive={pageNumber === page}
+                                onClick={() => setPage(pageNumber)}
+                                className="cursor-pointer"
+                              >
+                                {pageNumber}
+                              </PaginationLink>
+                            </PaginationItem>
+                          )
+                        )}
+                        <PaginationItem>
+                          <PaginationNext
+                            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                            className={page === totalPages ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
 
       {/* Request Detail Dialog */}
       <RequestDetailDialog
         request={selectedRequest}
         onClose={() => setSelectedRequest(null)}
         onStatusChange={handleStatusChange}
-        onRefresh={fetchRequests}
+        onRefresh={() => setRefreshKey(k => k + 1)}
+        coReviewerIds={selectedRequest ? coReviewers[selectedRequest.id] ?? [] : []}
+        assigning={assigning}
+        onAssign={handleAssign}
+        onPriorityChange={handlePriorityChange}
+        onAddCoReviewer={handleAddCoReviewer}
+        onRemoveCoReviewer={handleRemoveCoReviewer}
+        readOnly={!isAdmin}
       />
+
+      {/* Mandatory comment for transitions that require one */}
+      <StatusCommentDialog
+        statusLabel={pendingTransition ? getStatusConfig(pendingTransition.toStatus).label : null}
+        submitting={updatingStatus}
+        onConfirm={(comment) =>
+          pendingTransition && applyStatusChange(pendingTransition.requestId, pendingTransition.toStatus, comment)
+        }
+        onCancel={() => setPendingTransition(null)}
+      />
+
+      {/* Bulk Action Report */}
+      <BulkResultsDialog results={bulkResults} onClose={() => setBulkResults(null)} />
     </>
   );
 }
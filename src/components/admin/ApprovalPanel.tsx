@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, ThumbsDown, ThumbsUp, Vote, X } from 'lucide-react';
+import { useAdmins } from '@/hooks/use-admins';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+
+type ApprovalVote = Database['public']['Tables']['request_approval_votes']['Row'];
+type ApprovalSummary = Database['public']['Functions']['get_approval_summary']['Returns'][number];
+
+interface ApprovalPanelProps {
+  requestId: string;
+  status: string;
+}
+
+export function ApprovalPanel({ requestId, status }: ApprovalPanelProps) {
+  const { user } = useAuth();
+  const { admins, getAdminName } = useAdmins();
+  const { getNextTransitions } = useRequestWorkflow();
+  const [votes, setVotes] = useState<ApprovalVote[]>([]);
+  const [approverIds, setApproverIds] = useState<string[]>([]);
+  const [summary, setSummary] = useState<ApprovalSummary | null>(null);
+  const [rationale, setRationale] = useState('');
+  const [submitting, setSubmitting] = useState<'approve' | 'reject' | null>(null);
+
+  const fetchApprovals = useCallback(async () => {
+    const [votesResult, approversResult, summaryResult] = await Promise.all([
+      supabase
+        .from('request_approval_votes')
+        .select('*')
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('request_required_approvers')
+        .select('user_id')
+        .eq('request_id', requestId),
+      supabase.rpc('get_approval_summary', { _request_id: requestId }).maybeSingle(),
+    ]);
+
+    const fetchError = votesResult.error || approversResult.error || summaryResult.error;
+    if (fetchError) {
+      console.error('Error fetching approvals:', fetchError);
+      return;
+    }
+
+    setVotes(votesResult.data);
+    setApproverIds(approversResult.data.map((a) => a.user_id));
+    setSummary(summaryResult.data);
+  }, [requestId]);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, [fetchApprovals, status]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`approval-votes-${requestId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'request_approval_votes', filter: `request_id=eq.${requestId}` },
+        () => fetchApprovals()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [requestId, fetchApprovals]);
+
+  const handleVote = async (decision: 'approve' | 'reject') => {
+    if (!user || !rationale.trim()) return;
+
+    setSubmitting(decision);
+    const { error } = await supabase
+      .from('request_approval_votes')
+      .upsert(
+        { request_id: requestId, voter_id: user.id, decision, rationale: rationale.trim() },
+        { onConflict: 'request_id,voter_id' }
+      );
+
+    if (error) {
+      toast.error('Failed to record vote: ' + error.message);
+    } else {
+      toast.success(decision === 'approve' ? 'Approval recorded' : 'Rejection recorded');
+      setRationale('');
+      fetchApprovals();
+    }
+    setSubmitting(null);
+  };
+
+  const handleAddApprover = async (userId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('request_required_approvers')
+      .insert({ request_id: requestId, user_id: userId, added_by: user.id });
+
+    if (error) {
+      toast.error('Failed to add approver: ' + error.message);
+    } else {
+      fetchApprovals();
+    }
+  };
+
+  const handleRemoveApprover = async (userId: string) => {
+    const { error } = await supabase
+      .from('request_required_approvers')
+      .delete()
+      .eq('request_id', requestId)
+      .eq('user_id', userId);
+
+    if (error) {
+      toast.error('Failed to remove approver: ' + error.message);
+    } else {
+      fetchApprovals();
+    }
+  };
+
+  const canVote = getNextTransitions(status, 'admin').some((t) => t.to_status === 'approved');
+  const required = summary?.required_approvals ?? 0;
+  const approvals = summary?.approvals ?? 0;
+  const ownVote = votes.find((v) => v.voter_id === user?.id);
+  const availableApprovers = admins.filter((a) => a.role === 'admin' && !approverIds.includes(a.user_id));
+
+  const adminLabel = (userId: string) =>
+    userId === user?.id ? `${getAdminName(userId)} (you)` : getAdminName(userId);
+
+  return (
+    <>
+      <Separator />
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h4 className="font-semibold flex items-center gap-2">
+            <Vote className="h-4 w-4" />
+            Approvals
+          </h4>
+          {required > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {approvals} of {required} approvals
+            </span>
+          )}
+        </div>
+
+        {required > 0 ? (
+          <Progress value={Math.min(100, (approvals / required) * 100)} className="h-2 mb-4" />
+        ) : (
+          <p className="text-sm text-muted-foreground mb-4">
+            No sign-off policy applies to this request, so votes are advisory and any admin can approve it.
+          </p>
+        )}
+
+        {/* Required Approvers */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Label className="w-28">Must approve:</Label>
+          {approverIds.map((userId) => (
+            <Badge
+              key={userId}
+              variant="secondary"
+              className={`gap-1 pr-1 ${summary?.missing_approvers.includes(userId) ? '' : 'status-approved'}`}
+            >
+              {adminLabel(userId)}
+              <button
+                type="button"
+                onClick={() => handleRemoveApprover(userId)}
+                disabled={!canVote}
+                className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                title="Remove required approver"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          {canVote && availableApprovers.length > 0 && (
+            <Select value="" onValueChange={handleAddApprover}>
+              <SelectTrigger className="w-[180px] h-8 text-xs">
+                <SelectValue placeholder="Add approver" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableApprovers.map((admin) => (
+                  <SelectItem key={admin.user_id} value={admin.user_id}>
+                    {adminLabel(admin.user_id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {approverIds.length === 0 && (!canVote || availableApprovers.length === 0) && (
+            <span className="text-sm text-muted-foreground">Nobody in particular</span>
+          )}
+        </div>
+
+        {/* Votes */}
+        {votes.length > 0 && (
+          <div className="space-y-3 mb-4">
+            {votes.map((vote) => (
+              <div key={vote.id} className="rounded-lg bg-muted/50 p-3">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-medium text-sm truncate">{adminLabel(vote.voter_id)}</span>
+                    <Badge className={vote.decision === 'approve' ? 'status-approved' : 'status-rejected'}>
+                      {vote.decision === 'approve' ? 'Approve' : 'Reject'}
+                    </Badge>
+                  </div>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {format(new Date(vote.updated_at), 'MMM d, p')}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{vote.rationale}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Cast Vote */}
+        {canVote && (
+          <div className="space-y-3">
+            <Label htmlFor={`vote-rationale-${requestId}`}>
+              {ownVote ? 'Change Your Vote' : 'Your Vote'}
+            </Label>
+            <Textarea
+              id={`vote-rationale-${requestId}`}
+              placeholder="Explain your decision... Other reviewers will see this."
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+              rows={3}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleVote('approve')}
+                disabled={!rationale.trim() || submitting !== null}
+              >
+                {submitting === 'approve' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ThumbsUp className="mr-2 h-4 w-4" />
+                )}
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleVote('reject')}
+                disabled={!rationale.trim() || submitting !== null}
+                className="text-destructive hover:text-destructive"
+              >
+                {submitting === 'reject' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ThumbsDown className="mr-2 h-4 w-4" />
+                )}
+                Reject
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Loader2, ShieldCheck, Trash2 } from 'lucide-react';
+import { DURATION_OPTIONS, PROJECT_TYPES } from '@/lib/request-form';
+
+type ApprovalRule = Database['public']['Tables']['approval_rules']['Row'];
+type ConfidentialityLevel = Database['public']['Enums']['confidentiality_level'];
+
+const CONFIDENTIALITY_LABELS: Record<ConfidentialityLevel, string> = {
+  public: 'Public',
+  internal: 'Internal',
+  restricted: 'Restricted / NDA',
+};
+
+export function ApprovalRules() {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [projectType, setProjectType] = useState('any');
+  const [confidentiality, setConfidentiality] = useState('any');
+  const [durations, setDurations] = useState<string[]>([]);
+  const [requiredApprovals, setRequiredApprovals] = useState('2');
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from('approval_rules')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching approval rules:', error);
+    } else {
+      setRules(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleDurationChange = (duration: string, checked: boolean) => {
+    setDurations(checked ? [...durations, duration] : durations.filter(d => d !== duration));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quorum = parseInt(requiredApprovals, 10);
+    if (!user || !name.trim() || !(quorum >= 1)) return;
+
+    setCreating(true);
+    const { data, error } = await supabase
+      .from('approval_rules')
+      .insert({
+        name: name.trim(),
+        project_type: projectType === 'any' ? null : projectType,
+        confidentiality_level: confidentiality === 'any' ? null : (confidentiality as ConfidentialityLevel),
+        estimated_durations: durations.length > 0 ? durations : null,
+        required_approvals: quorum,
+        created_by: user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      toast.error('Failed to create approval rule: ' + error.message);
+    } else {
+      toast.success('Approval rule created');
+      setRules([...rules, data]);
+      setName('');
+      setProjectType('any');
+      setConfidentiality('any');
+      setDurations([]);
+      setRequiredApprovals('2');
+    }
+    setCreating(false);
+  };
+
+  const handleDelete = async (rule: ApprovalRule) => {
+    if (!confirm(`Delete the approval rule "${rule.name}"? Requests it covers will no longer need a quorum.`)) return;
+
+    setBusyId(rule.id);
+    const { error } = await supabase.from('approval_rules').delete().eq('id', rule.id);
+
+    if (error) {
+      toast.error('Failed to delete approval rule: ' + error.message);
+    } else {
+      toast.success('Approval rule deleted');
+      setRules(rules.filter(r => r.id !== rule.id));
+    }
+    setBusyId(null);
+  };
+
+  const describeCriteria = (rule: ApprovalRule) => {
+    const criteria = [
+      rule.project_type && (PROJECT_TYPES.find(t => t.id === rule.project_type)?.label || rule.project_type),
+      rule.confidentiality_level && CONFIDENTIALITY_LABELS[rule.confidentiality_level],
+      rule.estimated_durations?.length && rule.estimated_durations.join(', '),
+    ].filter(Boolean);
+    return criteria.length > 0 ? criteria : ['All requests'];
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* New Rule */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Approval Rules
+          </CardTitle>
+          <CardDescription>
+            Requests matching a rule need that many approving votes before they are approved. When several rules
+            match, the highest quorum applies. Leave a criterion as Any to match every request.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name *</Label>
+                <Input
+                  id="rule-name"
+                  placeholder="e.g., Restricted prototypes"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-quorum">Required Approvals *</Label>
+                <Input
+                  id="rule-quorum"
+                  type="number"
+                  min={1}
+                  value={requiredApprovals}
+                  onChange={(e) => setRequiredApprovals(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-type">Project Type</Label>
+                <Select value={projectType} onValueChange={setProjectType}>
+                  <SelectTrigger id="rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    {PROJECT_TYPES.map((type) => (
+                      <SelectItem key={type.id} value={type.id}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-confidentiality">Confidentiality Level</Label>
+                <Select value={confidentiality} onValueChange={setConfidentiality}>
+                  <SelectTrigger id="rule-confidentiality">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    {Object.entries(CONFIDENTIALITY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Estimated Duration</Label>
+              <div className="flex flex-wrap gap-3">
+                {DURATION_OPTIONS.map((option) => (
+                  <div key={option} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`rule-duration-${option}`}
+                      checked={durations.includes(option)}
+                      onCheckedChange={(checked) => handleDurationChange(option, checked as boolean)}
+                    />
+                    <Label htmlFor={`rule-duration-${option}`} className="cursor-pointer font-normal">
+                      {option}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Button type="submit" disabled={creating || !name.trim()}>
+              {creating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                'Add Rule'
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Rules Table */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Required Approvals</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-12 text-muted-foreground">
+                      No approval rules yet. Requests can be approved by any single admin.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {describeCriteria(rule).map((criterion) => (
+                            <Badge key={criterion} variant="secondary" className="text-xs">
+                              {criterion}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{rule.required_approvals}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(rule)}
+                          disabled={busyId === rule.id}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import type { Database } from '@/integrations/supabase/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+export type BulkResult = Database['public']['Functions']['bulk_update_requests']['Returns'][number];
+
+interface BulkResultsDialogProps {
+  results: BulkResult[] | null;
+  onClose: () => void;
+}
+
+export function BulkResultsDialog({ results, onClose }: BulkResultsDialogProps) {
+  const failed = results?.filter(r => !r.succeeded) ?? [];
+
+  return (
+    <Dialog open={!!results} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Bulk action complete</DialogTitle>
+          <DialogDescription>
+            {(results?.length ?? 0) - failed.length} succeeded, {failed.length} failed.
+            {failed.length > 0 && ' Failed requests stay selected so you can try again.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-80 overflow-y-auto">
+          <ul className="space-y-2 pr-3">
+            {results?.map((result) => (
+              <li key={result.request_id} className="flex items-start gap-2 text-sm">
+                {result.succeeded ? (
+                  <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-success" />
+                ) : (
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                )}
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{result.title || 'Unknown request'}</p>
+                  {!result.succeeded && <p className="text-xs text-muted-foreground">{result.message}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { useAdmins } from '@/hooks/use-admins';
+
+type ExportClearance = Database['public']['Tables']['export_clearances']['Row'];
+
+export function ExportClearances() {
+  const { user } = useAuth();
+  const { admins, loading: adminsLoading, getAdminName } = useAdmins();
+  const queryClient = useQueryClient();
+  const [clearances, setClearances] = useState<ExportClearance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClearances();
+  }, []);
+
+  const fetchClearances = async () => {
+    const { data, error } = await supabase.from('export_clearances').select('*');
+
+    if (error) {
+      console.error('Error fetching export clearances:', error);
+    } else {
+      setClearances(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleToggle = async (userId: string, grant: boolean) => {
+    if (!user) return;
+
+    setBusyId(userId);
+    if (grant) {
+      const { data, error } = await supabase
+        .from('export_clearances')
+        .insert({ user_id: userId, granted_by: user.id })
+        .select('*')
+        .single();
+
+      if (error) {
+        toast.error('Failed to grant clearance: ' + error.message);
+      } else {
+        toast.success(`${getAdminName(userId)} can now export restricted requests`);
+        setClearances([...clearances, data]);
+      }
+    } else {
+      const { error } = await supabase.from('export_clearances').delete().eq('user_id', userId);
+
+      if (error) {
+        toast.error('Failed to revoke clearance: ' + error.message);
+      } else {
+        toast.success('Clearance revoked');
+        setClearances(clearances.filter(c => c.user_id !== userId));
+        if (userId === user.id) queryClient.invalidateQueries({ queryKey: ['export-clearance'] });
+      }
+    }
+    setBusyId(null);
+  };
+
+  if (loading || adminsLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Export Clearance
+        </CardTitle>
+        <CardDescription>
+          Restricted / NDA content is replaced with a placeholder in exports unless another admin has cleared
+          the exporting admin here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Admin</TableHead>
+                <TableHead>Granted</TableHead>
+                <TableHead className="text-right">Cleared</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {admins.filter(a => a.role === 'admin').map((admin) => {
+                const clearance = clearances.find(c => c.user_id === admin.user_id);
+                const isSelf = admin.user_id === user?.id;
+                return (
+                  <TableRow key={admin.user_id}>
+                    <TableCell>
+                      <p className="font-medium">{admin.full_name}{isSelf && ' (you)'}</p>
+                      <p className="text-xs text-muted-foreground">{admin.email}</p>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {clearance
+                        ? `${format(new Date(clearance.created_at), 'MMM d, yyyy')} by ${getAdminName(clearance.granted_by) ?? 'a former admin'}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Switch
+                        checked={!!clearance}
+                        onCheckedChange={(checked) => handleToggle(admin.user_id, checked)}
+                        disabled={busyId === admin.user_id || (isSelf && !clearance)}
+                        aria-label={`Export clearance for ${admin.full_name}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import type { ExportFormat } from '@/lib/request-export';
+
+interface ExportMenuProps {
+  label?: string;
+  exporting?: boolean;
+  masked?: boolean;
+  onExport: (exportFormat: ExportFormat) => void;
+}
+
+export function ExportMenu({ label = 'Export', exporting, masked, onExport }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={exporting}>
+          {exporting ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-1" />
+          )}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {masked && (
+          <>
+            <DropdownMenuLabel className="max-w-[220px] text-xs font-normal text-muted-foreground">
+              Restricted requests are masked. Another admin can clear you for them in Settings.
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+          </>
+        )}
+        <DropdownMenuItem onClick={() => onExport('xlsx')}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onExport('csv')}>
+          <FileText className="h-4 w-4 mr-2" />
+          CSV (.csv)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
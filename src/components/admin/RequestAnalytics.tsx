@@ -0,0 +1,419 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { DateRange } from 'react-day-picker';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { addDays, format, startOfDay, subDays } from 'date-fns';
+import { CalendarIcon, Loader2 } from 'lucide-react';
+import { useAdmins } from '@/hooks/use-admins';
+import { PROJECT_TYPES } from '@/lib/request-form';
+
+type Functions = Database['public']['Functions'];
+type Turnaround = Functions['get_request_turnaround']['Returns'][number];
+type WeeklyMetric = Functions['get_request_weekly_metrics']['Returns'][number];
+type Breakdown = Functions['get_request_breakdown']['Returns'][number];
+type Workload = Functions['get_reviewer_workload']['Returns'][number];
+
+type RangePreset = '30' | '90' | '180' | '365' | 'custom';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '180', label: 'Last 6 months' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const CONFIDENTIALITY_LABELS: Record<string, string> = {
+  public: 'Public',
+  internal: 'Internal',
+  restricted: 'Restricted / NDA',
+};
+
+const throughputConfig = {
+  submitted_count: { label: 'Submitted', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const decisionsConfig = {
+  approved_count: { label: 'Approved', color: 'hsl(var(--success))' },
+  rejected_count: { label: 'Rejected', color: 'hsl(var(--destructive))' },
+  approval_rate: { label: 'Approval rate (%)', color: 'hsl(var(--info))' },
+} satisfies ChartConfig;
+
+const turnaroundConfig = {
+  first_response_days: { label: 'First response (days)', color: 'hsl(var(--warning))' },
+  decision_days: { label: 'Decision (days)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const breakdownConfig = {
+  request_count: { label: 'Submitted', color: 'hsl(var(--primary))' },
+  approved_count: { label: 'Approved', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+const workloadConfig = {
+  open_assigned_count: { label: 'Leading', color: 'hsl(var(--primary))' },
+  open_co_review_count: { label: 'Co-reviewing', color: 'hsl(var(--info))' },
+  decided_count: { label: 'Decided in range', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+// Medians come back in hours; anything over two days reads better in days
+const formatDuration = (hours: number | null) => {
+  if (hours == null) return '—';
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} d`;
+};
+
+const toDays = (hours: number | null) => (hours == null ? null : Math.round((hours / 24) * 10) / 10);
+
+const formatWeek = (value: string) => format(new Date(value), 'MMM d');
+
+export function RequestAnalytics() {
+  const { getAdminName } = useAdmins();
+  const [preset, setPreset] = useState<RangePreset>('90');
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [turnaround, setTurnaround] = useState<Turnaround | null>(null);
+  const [weekly, setWeekly] = useState<WeeklyMetric[]>([]);
+  const [breakdown, setBreakdown] = useState<Breakdown[]>([]);
+  const [workload, setWorkload] = useState<Workload[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // The range is [from, to): whole days, up to and including today or the last picked day
+  const range = useMemo(
+    () =>
+      preset === 'custom'
+        ? customRange?.from
+          ? {
+              from: startOfDay(customRange.from),
+              to: addDays(startOfDay(customRange.to ?? customRange.from), 1),
+            }
+          : null
+        : { from: subDays(startOfDay(new Date()), Number(preset) - 1), to: addDays(startOfDay(new Date()), 1) },
+    [preset, customRange]
+  );
+
+  const fetchAnalytics = useCallback(async (from: Date, to: Date) => {
+    setLoading(true);
+    const args = { _from: from.toISOString(), _to: to.toISOString() };
+    const [turnaroundResult, weeklyResult, breakdownResult, workloadResult] = await Promise.all([
+      supabase.rpc('get_request_turnaround', args),
+      supabase.rpc('get_request_weekly_metrics', args),
+      supabase.rpc('get_request_breakdown', args),
+      supabase.rpc('get_reviewer_workload', args),
+    ]);
+
+    const error =
+      turnaroundResult.error || weeklyResult.error || breakdownResult.error || workloadResult.error;
+    if (error) {
+      toast.error('Failed to load analytics: ' + error.message);
+    } else {
+      setTurnaround(turnaroundResult.data[0] ?? null);
+      setWeekly(weeklyResult.data);
+      setBreakdown(breakdownResult.data);
+      setWorkload(workloadResult.data);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (range) fetchAnalytics(range.from, range.to);
+  }, [range, fetchAnalytics]);
+
+  const decidedCount = turnaround ? turnaround.approved_count + turnaround.rejected_count : 0;
+  const approvalRate =
+    turnaround && decidedCount > 0 ? Math.round((turnaround.approved_count / decidedCount) * 100) : null;
+
+  const weeklyData = weekly.map((week) => {
+    const decided = week.approved_count + week.rejected_count;
+    return {
+      ...week,
+      approval_rate: decided > 0 ? Math.round((week.approved_count / decided) * 100) : null,
+      first_response_days: toDays(week.median_first_response_hours),
+      decision_days: toDays(week.median_decision_hours),
+    };
+  });
+
+  const projectTypeData = PROJECT_TYPES.map((type) => {
+    const row = breakdown.find(b => b.dimension === 'project_type' && b.value === type.id);
+    return { label: type.label, request_count: row?.request_count ?? 0, approved_count: row?.approved_count ?? 0 };
+  });
+
+  const confidentialityData = Object.entries(CONFIDENTIALITY_LABELS).map(([value, label]) => {
+    const row = breakdown.find(b => b.dimension === 'confidentiality_level' && b.value === value);
+    return { label, request_count: row?.request_count ?? 0, approved_count: row?.approved_count ?? 0 };
+  });
+
+  const workloadData = workload
+    .map(w => ({ ...w, name: getAdminName(w.user_id) ?? 'Unknown admin' }))
+    .sort((a, b) => b.open_assigned_count + b.open_co_review_count - (a.open_assigned_count + a.open_co_review_count));
+
+  return (
+    <div className="space-y-6">
+      {/* Date Range */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_PRESETS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {preset === 'custom' && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="gap-2 font-normal">
+                <CalendarIcon className="h-4 w-4" />
+                {customRange?.from
+                  ? `${format(customRange.from, 'PP')} – ${format(customRange.to ?? customRange.from, 'PP')}`
+                  : 'Pick dates'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={customRange}
+                onSelect={setCustomRange}
+                numberOfMonths={2}
+                disabled={{ after: new Date() }}
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+        {loading && range && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {!range ? (
+        <p className="text-sm text-muted-foreground">Pick a date range to see analytics.</p>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Submitted</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">{turnaround?.submitted_count ?? 0}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Approval Rate</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold text-success">{approvalRate == null ? '—' : `${approvalRate}%`}</p>
+                <p className="text-xs text-muted-foreground">
+                  {turnaround?.approved_count ?? 0} approved, {turnaround?.rejected_count ?? 0} rejected
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Median First Response</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold text-warning">
+                  {formatDuration(turnaround?.median_first_response_hours ?? null)}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Median Time to Decision</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold text-info">
+                  {formatDuration(turnaround?.median_decision_hours ?? null)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Weekly Trends */}
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Submissions per Week</CardTitle>
+                <CardDescription>Requests submitted, by the week they came in</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={throughputConfig} className="h-[260px] w-full aspect-auto">
+                  <BarChart data={weeklyData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="week_start" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeek} />} />
+                    <Bar dataKey="submitted_count" fill="var(--color-submitted_count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Decisions</CardTitle>
+                <CardDescription>Approvals and rejections per week, with the share approved</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={decisionsConfig} className="h-[260px] w-full aspect-auto">
+                  <ComposedChart data={weeklyData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="week_start" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                    <YAxis yAxisId="count" allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <YAxis
+                      yAxisId="rate"
+                      orientation="right"
+                      domain={[0, 100]}
+                      tickFormatter={(value) => `${value}%`}
+                      tickLine={false}
+                      axisLine={false}
+                      width={40}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeek} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar yAxisId="count" dataKey="approved_count" stackId="decisions" fill="var(--color-approved_count)" />
+                    <Bar yAxisId="count" dataKey="rejected_count" stackId="decisions" fill="var(--color-rejected_count)" />
+                    <Line
+                      yAxisId="rate"
+                      dataKey="approval_rate"
+                      stroke="var(--color-approval_rate)"
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Turnaround</CardTitle>
+              <CardDescription>
+                Weekly median days from submission to first admin response, and to approval or rejection
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={turnaroundConfig} className="h-[260px] w-full aspect-auto">
+                <LineChart data={weeklyData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week_start" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeek} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line
+                    dataKey="first_response_days"
+                    stroke="var(--color-first_response_days)"
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                  <Line dataKey="decision_days" stroke="var(--color-decision_days)" strokeWidth={2} connectNulls />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {/* Breakdown */}
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">By Project Type</CardTitle>
+                <CardDescription>Requests with several types count under each of them</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={breakdownConfig} className="h-[260px] w-full aspect-auto">
+                  <BarChart data={projectTypeData} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="request_count" fill="var(--color-request_count)" radius={4} />
+                    <Bar dataKey="approved_count" fill="var(--color-approved_count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">By Confidentiality</CardTitle>
+                <CardDescription>Requests submitted at each confidentiality level</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={breakdownConfig} className="h-[260px] w-full aspect-auto">
+                  <BarChart data={confidentialityData} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="request_count" fill="var(--color-request_count)" radius={4} />
+                    <Bar dataKey="approved_count" fill="var(--color-approved_count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Reviewer Workload */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Reviewer Workload</CardTitle>
+              <CardDescription>
+                Open requests each admin is leading or co-reviewing right now, and how many they decided in the range
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {workloadData.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No admins yet.</p>
+              ) : (
+                <ChartContainer
+                  config={workloadConfig}
+                  className="w-full aspect-auto"
+                  style={{ height: Math.max(160, workloadData.length * 48) }}
+                >
+                  <BarChart data={workloadData} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={140} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="open_assigned_count" stackId="open" fill="var(--color-open_assigned_count)" />
+                    <Bar dataKey="open_co_review_count" stackId="open" fill="var(--color-open_co_review_count)" />
+                    <Bar dataKey="decided_count" fill="var(--color-decided_count)" />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { formatDistanceToNow } from 'date-fns';
+import { AlarmClock, GripVertical } from 'lucide-react';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+import { getPriorityConfig, getSlaState, SLA_STATE_CONFIG, type RequestPriority } from '@/lib/request-sla';
+import { PROJECT_TYPES } from '@/lib/request-form';
+
+interface BoardRequest {
+  id: string;
+  title: string;
+  status: string;
+  project_types: string[];
+  created_at: string;
+  priority: RequestPriority;
+  first_response_due_at: string | null;
+  first_responded_at: string | null;
+  submitter_name: string | null;
+}
+
+interface RequestBoardProps<T extends BoardRequest> {
+  requests: T[];
+  statusFilter: string;
+  disabled?: boolean;
+  onOpen: (request: T) => void;
+  onStatusChange: (requestId: string, newStatus: string) => void;
+}
+
+export function RequestBoard<T extends BoardRequest>({
+  requests,
+  statusFilter,
+  disabled,
+  onOpen,
+  onStatusChange,
+}: RequestBoardProps<T>) {
+  const { statuses, getStatusConfig, getNextTransitions } = useRequestWorkflow();
+  const [dragging, setDragging] = useState<T | null>(null);
+  const [overColumn, setOverColumn] = useState<string | null>(null);
+
+  const columns = statuses.filter(s => s.key !== 'draft' && (statusFilter === 'all' || s.key === statusFilter));
+
+  // Only columns the workflow allows this card to move into accept the drop
+  const canDrop = (toStatus: string) =>
+    !!dragging && getNextTransitions(dragging.status, 'admin').some(t => t.to_status === toStatus);
+
+  const handleDrop = (toStatus: string) => {
+    if (dragging && canDrop(toStatus)) onStatusChange(dragging.id, toStatus);
+    setDragging(null);
+    setOverColumn(null);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {columns.map((column) => {
+        const columnRequests = requests.filter(r => r.status === column.key);
+        const droppable = canDrop(column.key);
+        const config = getStatusConfig(column.key);
+
+        return (
+          <div
+            key={column.key}
+            className={`flex w-72 shrink-0 flex-col rounded-lg border bg-muted/40 transition-colors ${
+              dragging && !droppable && dragging.status !== column.key ? 'opacity-50' : ''
+            } ${overColumn === column.key ? 'border-primary bg-primary/5' : ''}`}
+            onDragOver={(e) => {
+              if (!droppable) return;
+              e.preventDefault();
+              setOverColumn(column.key);
+            }}
+            onDragLeave={() => setOverColumn(prev => (prev === column.key ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(column.key);
+            }}
+          >
+            <div className="flex items-center justify-between border-b px-3 py-2">
+              <Badge className={config.className}>{config.label}</Badge>
+              <span className="text-sm text-muted-foreground">{columnRequests.length}</span>
+            </div>
+
+            <div className="flex min-h-[120px] flex-1 flex-col gap-2 p-2">
+              {columnRequests.length === 0 ? (
+                <p className="py-6 text-center text-xs text-muted-foreground">No requests</p>
+              ) : (
+                columnRequests.map((request) => {
+                  const movable = !disabled && getNextTransitions(request.status, 'admin').length > 0;
+                  const priority = getPriorityConfig(request.priority);
+                  const sla = getSlaState(request, column.is_terminal);
+
+                  return (
+                    <div
+                      key={request.id}
+                      draggable={movable}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragging(request);
+                      }}
+                      onDragEnd={() => {
+                        setDragging(null);
+                        setOverColumn(null);
+                      }}
+                      onClick={() => onOpen(request)}
+                      className={`group rounded-md border bg-card p-3 text-left shadow-sm transition-shadow hover:shadow-md ${
+                        movable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                      } ${dragging?.id === request.id ? 'opacity-40' : ''}`}
+                    >
+                      <div className="flex items-start gap-1">
+                        <p className="flex-1 text-sm font-medium line-clamp-2">{request.title}</p>
+                        {movable && (
+                          <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100" />
+                        )}
+                      </div>
+                      <p className="mt-1 text-xs text-muted-foreground truncate">
+                        {request.submitter_name || 'Unknown'}
+                      </p>
+
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {request.project_types.map((type) => (
+                          <Badge key={type} variant="secondary" className="text-xs">
+                            {PROJECT_TYPES.find(t => t.id === type)?.label || type}
+                          </Badge>
+                        ))}
+                        {request.priority !== 'normal' && (
+                          <Badge className={`text-xs ${priority.className}`}>{priority.label}</Badge>
+                        )}
+                        {sla && sla !== 'on_track' && (
+                          <Badge className={`text-xs gap-1 ${SLA_STATE_CONFIG[sla].className}`}>
+                            <AlarmClock className="h-3 w-3" />
+                            {SLA_STATE_CONFIG[sla].label}
+                          </Badge>
+                        )}
+                      </div>
+
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
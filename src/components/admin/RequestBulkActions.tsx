@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import {
+  Archive,
+  ArrowRightLeft,
+  Loader2,
+  MessageSquare,
+  UserCheck,
+  X,
+} from 'lucide-react';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+import { useAdmins } from '@/hooks/use-admins';
+import { useRequestExport, type ExportRequest } from '@/hooks/use-request-export';
+import type { ExportFormat } from '@/lib/request-export';
+import { ExportMenu } from './ExportMenu';
+import type { BulkResult } from './BulkResultsDialog';
+
+type BulkAction = 'status' | 'assign' | 'comment';
+
+interface RequestBulkActionsProps {
+  requests: ExportRequest[];
+  onComplete: (results: BulkResult[]) => void;
+  onClear: () => void;
+}
+
+const UNASSIGNED = 'none';
+
+const actionTitles: Record<BulkAction, string> = {
+  status: 'Change status',
+  assign: 'Assign reviewer',
+  comment: 'Add comment',
+};
+
+export function RequestBulkActions({ requests, onComplete, onClear }: RequestBulkActionsProps) {
+  const { statuses, getStatusConfig, getNextTransitions } = useRequestWorkflow();
+  const { admins } = useAdmins();
+  const { cleared, exportRequests } = useRequestExport();
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [toStatus, setToStatus] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [comment, setComment] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const openAction = (next: BulkAction) => {
+    setToStatus('');
+    setAssignee('');
+    setComment('');
+    setIsInternal(false);
+    setAction(next);
+  };
+
+  const run = async (bulkAction: BulkAction | 'archive') => {
+    setRunning(true);
+    const { data, error } = await supabase.rpc('bulk_update_requests', {
+      _request_ids: requests.map(r => r.id),
+      _action: bulkAction,
+      _status: bulkAction === 'status' ? toStatus : undefined,
+      _assignee: bulkAction === 'assign' && assignee !== UNASSIGNED ? assignee : undefined,
+      _comment: comment.trim() || undefined,
+      _is_internal: bulkAction === 'comment' ? isInternal : undefined,
+    });
+
+    if (error) {
+      toast.error('Failed to run bulk action: ' + error.message);
+    } else {
+      setAction(null);
+      onComplete(data);
+    }
+    setRunning(false);
+  };
+
+  const handleArchive = () => {
+    if (!confirm(`Archive ${requests.length} request${requests.length === 1 ? '' : 's'}? Only closed requests can be archived.`)) return;
+    run('archive');
+  };
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    await exportRequests(requests, exportFormat, 'selected-requests');
+  };
+
+  // Rows the workflow won't let move are still sent, and come back as failures in the report
+  const eligible = toStatus
+    ? requests.filter(r => getNextTransitions(r.status, 'admin').some(t => t.to_status === toStatus))
+    : [];
+  const commentRequired =
+    action === 'comment' ||
+    (action === 'status' &&
+      eligible.some(r => getNextTransitions(r.status, 'admin').find(t => t.to_status === toStatus)?.requires_comment));
+
+  const canSubmit =
+    !running &&
+    (action !== 'status' || !!toStatus) &&
+    (action !== 'assign' || !!assignee) &&
+    (!commentRequired || !!comment.trim());
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 border-b bg-muted/40 px-4 py-2">
+        <span className="mr-2 text-sm font-medium">{requests.length} selected</span>
+        <Button variant="outline" size="sm" onClick={() => openAction('status')} disabled={running}>
+          <ArrowRightLeft className="h-4 w-4 mr-1" />
+          Status
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openAction('assign')} disabled={running}>
+          <UserCheck className="h-4 w-4 mr-1" />
+          Assign
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openAction('comment')} disabled={running}>
+          <MessageSquare className="h-4 w-4 mr-1" />
+          Comment
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleArchive} disabled={running}>
+          {running && !action ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Archive className="h-4 w-4 mr-1" />
+          )}
+          Archive
+        </Button>
+        <ExportMenu masked={!cleared} onExport={handleExport} />
+        <Button variant="ghost" size="sm" onClick={onClear} className="ml-auto">
+          <X className="h-4 w-4 mr-1" />
+          Clear selection
+        </Button>
+      </div>
+
+      {/* Action Dialog */}
+      <Dialog open={!!action} onOpenChange={(open) => !open && !running && setAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{action && actionTitles[action]}</DialogTitle>
+            <DialogDescription>
+              Applies to {requests.length} selected request{requests.length === 1 ? '' : 's'}. Each one is
+              updated on its own, so anything that can't be changed is reported without holding up the rest.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {action === 'status' && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-status">New Status</Label>
+                <Select value={toStatus} onValueChange={setToStatus}>
+                  <SelectTrigger id="bulk-status">
+                    <SelectValue placeholder="Select a status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statuses
+                      .filter((s) => s.key !== 'draft')
+                      .map((s) => (
+                        <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                {toStatus && eligible.length < requests.length && (
+                  <p className="text-xs text-muted-foreground">
+                    Only {eligible.length} of {requests.length} can move to {getStatusConfig(toStatus).label} from
+                    their current status.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {action === 'assign' && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-assignee">Reviewer</Label>
+                <Select value={assignee} onValueChange={setAssignee}>
+                  <SelectTrigger id="bulk-assignee">
+                    <SelectValue placeholder="Select a reviewer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {admins.map((admin) => (
+                      <SelectItem key={admin.user_id} value={admin.user_id}>
+                        {admin.full_name || admin.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(action === 'status' || action === 'comment') && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-comment">Comment{commentRequired ? '' : ' (optional)'}</Label>
+                <Textarea
+                  id="bulk-comment"
+                  placeholder={action === 'comment' ? 'e.g., Deferred to next quarter' : 'Explain the reason for this status change...'}
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={4}
+                />
+              </div>
+            )}
+
+            {action === 'comment' && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="bulk-internal"
+                  checked={isInternal}
+                  onCheckedChange={(checked) => setIsInternal(checked === true)}
+                />
+                <Label htmlFor="bulk-internal" className="font-normal">
+                  Internal note (hidden from requesters)
+                </Label>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)} disabled={running}>
+              Cancel
+            </Button>
+            <Button onClick={() => action && run(action)} disabled={!canSubmit}>
+              {running && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply to {requests.length}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,13 +1,10 @@
 import { useState, useEffect } from 'react';
-import { useAuth } from '@/lib/auth';
-import { supabase } from '@/integrations/supabase/client';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
   SelectContent,
@@ -17,8 +14,27 @@ import {
 } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
-import { MessageSquare, Send, Loader2, User, Paperclip } from 'lucide-react';
+import { MessageSquare, User, Paperclip, History, Lock, RotateCcw, AlarmClock } from 'lucide-react';
 import { AttachmentList } from '@/components/dashboard/AttachmentList';
+import { CommentThread } from '@/components/dashboard/CommentThread';
+import { RequestTimeline } from '@/components/dashboard/RequestTimeline';
+import { DecisionRecordButton } from '@/components/dashboard/DecisionRecordButton';
+import { RequestRevisionDiff } from './RequestRevisionDiff';
+import { ReviewerAssignment } from './ReviewerAssignment';
+import { ApprovalPanel } from './ApprovalPanel';
+import { RequestScorecard } from './RequestScorecard';
+import { ExportMenu } from './ExportMenu';
+import { supabase } from '@/integrations/supabase/client';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+import { REQUEST_EXPORT_COLUMNS, useRequestExport } from '@/hooks/use-request-export';
+import type { ExportFormat } from '@/lib/request-export';
+import {
+  PRIORITY_OPTIONS,
+  getPriorityConfig,
+  getSlaState,
+  SLA_STATE_CONFIG,
+  type RequestPriority,
+} from '@/lib/request-sla';
 
 interface ProjectRequest {
   id: string;
@@ -33,15 +49,18 @@ interface ProjectRequest {
   confidentiality_level: string;
   status: string;
   created_at: string;
-  submitter_name?: string;
-  submitter_email?: string;
-}
-
-interface Comment {
-  id: string;
-  comment: string;
-  created_at: string;
-  admin_name?: string;
+  updated_at: string;
+  resubmission_of: string | null;
+  assigned_to: string | null;
+  priority: RequestPriority;
+  first_response_due_at: string | null;
+  first_responded_at: string | null;
+  submitter_name: string | null;
+  submitter_email: string | null;
+  previous_rejection?: {
+    comment: string | null;
+    rejected_at: string;
+  };
 }
 
 interface RequestDetailDialogProps {
@@ -49,15 +68,16 @@ interface RequestDetailDialogProps {
   onClose: () => void;
   onStatusChange: (requestId: string, newStatus: string) => void;
   onRefresh: () => void;
+  coReviewerIds: string[];
+  assigning: boolean;
+  onAssign: (requestId: string, userId: string | null) => void;
+  onPriorityChange: (requestId: string, priority: RequestPriority) => void;
+  onAddCoReviewer: (requestId: string, userId: string) => void;
+  onRemoveCoReviewer: (requestId: string, userId: string) => void;
+  // Reviewers can comment and score, but not move, assign, approve or export
+  readOnly?: boolean;
 }
 
-const statusConfig: Record<string, { label: string; className: string }> = {
-  pending: { label: 'Pending', className: 'status-pending' },
-  in_review: { label: 'In Review', className: 'status-in-review' },
-  approved: { label: 'Approved', className: 'status-approved' },
-  rejected: { label: 'Rejected', className: 'status-rejected' },
-};
-
 const typeLabels: Record<string, string> = {
   'research': 'Research',
   'threat-intelligence': 'Threat Intelligence',
@@ -67,80 +87,60 @@ const typeLabels: Record<string, string> = {
   'other': 'Other',
 };
 
-export function RequestDetailDialog({ request, onClose, onStatusChange, onRefresh }: RequestDetailDialogProps) {
-  const { user } = useAuth();
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [newComment, setNewComment] = useState('');
-  const [loadingComments, setLoadingComments] = useState(false);
-  const [submittingComment, setSubmittingComment] = useState(false);
+export function RequestDetailDialog({
+  request,
+  onClose,
+  onStatusChange,
+  onRefresh,
+  coReviewerIds,
+  assigning,
+  onAssign,
+  onPriorityChange,
+  onAddCoReviewer,
+  onRemoveCoReviewer,
+  readOnly = false,
+}: RequestDetailDialogProps) {
+  const [activityRefreshKey, setActivityRefreshKey] = useState(0);
+  const [timelineRefreshKey, setTimelineRefreshKey] = useState(0);
+  const [exporting, setExporting] = useState(false);
+  const { statuses, getStatusConfig, getNextTransitions } = useRequestWorkflow();
+  const { cleared, exportRequests } = useRequestExport();
 
+  // Status changes can carry a mandatory comment, so reload the thread and timeline when the status moves
   useEffect(() => {
-    if (request) {
-      fetchComments();
-    }
-  }, [request?.id]);
-
-  const fetchComments = async () => {
-    if (!request) return;
-    
-    setLoadingComments(true);
-    const { data, error } = await supabase
-      .from('comments')
-      .select('id, comment, created_at, admin_id')
-      .eq('request_id', request.id)
-      .order('created_at', { ascending: true });
+    setActivityRefreshKey(k => k + 1);
+  }, [request?.status]);
 
-    if (error) {
-      console.error('Error fetching comments:', error);
-    } else {
-      // Fetch admin names for each comment
-      const commentsWithNames = await Promise.all(
-        (data || []).map(async (comment) => {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('full_name')
-            .eq('user_id', comment.admin_id)
-            .single();
-          return {
-            ...comment,
-            admin_name: profile?.full_name || 'Admin',
-          };
-        })
-      );
-      setComments(commentsWithNames);
+  const handleStatusChange = (newStatus: string) => {
+    if (request) {
+      onStatusChange(request.id, newStatus);
     }
-    setLoadingComments(false);
   };
 
-  const handleSubmitComment = async () => {
-    if (!request || !user || !newComment.trim()) return;
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!request) return;
 
-    setSubmittingComment(true);
-    const { error } = await supabase.from('comments').insert({
-      request_id: request.id,
-      admin_id: user.id,
-      comment: newComment.trim(),
-    });
+    setExporting(true);
+    const { data, error } = await supabase
+      .from('project_requests')
+      .select(REQUEST_EXPORT_COLUMNS)
+      .eq('id', request.id)
+      .single();
 
     if (error) {
-      toast.error('Failed to add comment: ' + error.message);
+      toast.error('Failed to export request: ' + error.message);
     } else {
-      toast.success('Comment added and notification sent to requester');
-      setNewComment('');
-      fetchComments();
-    }
-    setSubmittingComment(false);
-  };
-
-  const handleStatusChange = (newStatus: string) => {
-    if (request) {
-      onStatusChange(request.id, newStatus);
+      await exportRequests([data], exportFormat, `request-${data.id.slice(0, 8)}`);
     }
+    setExporting(false);
   };
 
   if (!request) return null;
 
-  const status = statusConfig[request.status] || statusConfig.pending;
+  const status = getStatusConfig(request.status);
+  const nextTransitions = readOnly ? [] : getNextTransitions(request.status, 'admin');
+  const priority = getPriorityConfig(request.priority);
+  const sla = getSlaState(request, statuses.find(s => s.key === request.status)?.is_terminal ?? false);
 
   return (
     <Dialog open={!!request} onOpenChange={() => onClose()}>
@@ -156,34 +156,110 @@ export function RequestDetailDialog({ request, onClose, onStatusChange, onRefres
                 <User className="h-5 w-5 text-primary" />
               </div>
               <div className="flex-1">
-                <p className="font-medium">{request.submitter_name}</p>
+                <p className="font-medium">{request.submitter_name || 'Unknown'}</p>
                 <p className="text-sm text-muted-foreground">{request.submitter_email}</p>
               </div>
-              <div className="text-right">
+              <div className="flex flex-col items-end gap-2">
                 <p className="text-sm text-muted-foreground">
                   {format(new Date(request.created_at), 'PPP')}
                 </p>
+                <div className="flex items-center gap-2">
+                  <DecisionRecordButton requestId={request.id} status={request.status} />
+                  {!readOnly && (
+                    <ExportMenu
+                      exporting={exporting}
+                      masked={!cleared && request.confidentiality_level === 'restricted'}
+                      onExport={handleExport}
+                    />
+                  )}
+                </div>
               </div>
             </div>
 
             {/* Status & Type */}
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-4">
               <div className="flex items-center gap-2">
                 <Label>Status:</Label>
-                <Select value={request.status} onValueChange={handleStatusChange}>
+                <Select
+                  value={request.status}
+                  onValueChange={handleStatusChange}
+                  disabled={nextTransitions.length === 0}
+                >
                   <SelectTrigger className="w-[140px]">
                     <Badge className={status.className}>{status.label}</Badge>
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="in_review">In Review</SelectItem>
-                    <SelectItem value="approved">Approved</SelectItem>
-                    <SelectItem value="rejected">Rejected</SelectItem>
+                    <SelectItem value={request.status}>{status.label}</SelectItem>
+                    {nextTransitions.map((t) => (
+                      <SelectItem key={t.id} value={t.to_status}>
+                        {getStatusConfig(t.to_status).label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label>Priority:</Label>
+                <Select
+                  value={request.priority}
+                  onValueChange={(value) => onPriorityChange(request.id, value as RequestPriority)}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger className="w-[120px]">
+                    <Badge className={priority.className}>{priority.label}</Badge>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRIORITY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
+              {request.first_responded_at ? (
+                <p className="text-sm text-muted-foreground">
+                  First response {format(new Date(request.first_responded_at), 'PPp')}
+                </p>
+              ) : sla && request.first_response_due_at && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <AlarmClock className="h-4 w-4" />
+                  Response due {format(new Date(request.first_response_due_at), 'PPp')}
+                  <Badge className={SLA_STATE_CONFIG[sla].className}>{SLA_STATE_CONFIG[sla].label}</Badge>
+                </div>
+              )}
             </div>
 
+            {/* Reviewers */}
+            <ReviewerAssignment
+              assignedTo={request.assigned_to}
+              coReviewerIds={coReviewerIds}
+              disabled={assigning || readOnly}
+              onAssign={(userId) => onAssign(request.id, userId)}
+              onAddCoReviewer={(userId) => onAddCoReviewer(request.id, userId)}
+              onRemoveCoReviewer={(userId) => onRemoveCoReviewer(request.id, userId)}
+            />
+
+            {/* Previous rejection */}
+            {request.resubmission_of && (
+              <div className="rounded-lg border border-destructive/20 bg-destructive/5 p-4">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <RotateCcw className="h-4 w-4" />
+                  Resubmitted after a rejection
+                  {request.previous_rejection && (
+                    <span className="font-normal text-muted-foreground">
+                      on {format(new Date(request.previous_rejection.rejected_at), 'PPP')}
+                    </span>
+                  )}
+                </p>
+                {request.previous_rejection?.comment && (
+                  <p className="mt-2 text-sm text-muted-foreground whitespace-pre-wrap">
+                    {request.previous_rejection.comment}
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="flex flex-wrap gap-2">
               {request.project_types.map((type) => (
                 <Badge key={type} variant="secondary">
@@ -247,6 +323,15 @@ export function RequestDetailDialog({ request, onClose, onStatusChange, onRefres
               )}
             </div>
 
+            {/* Revisions (only shown once the requester has edited the request) */}
+            <RequestRevisionDiff requestId={request.id} updatedAt={request.updated_at} />
+
+            {/* Scoring */}
+            <RequestScorecard requestId={request.id} />
+
+            {/* Approvals */}
+            {!readOnly && <ApprovalPanel requestId={request.id} status={request.status} />}
+
             <Separator />
 
             {/* Attachments Section */}
@@ -260,67 +345,44 @@ export function RequestDetailDialog({ request, onClose, onStatusChange, onRefres
 
             <Separator />
 
-            {/* Comments Section */}
+            {/* Discussion & Internal Notes */}
+            <Tabs defaultValue="discussion">
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="discussion" className="gap-2">
+                  <MessageSquare className="h-4 w-4" />
+                  Discussion
+                </TabsTrigger>
+                <TabsTrigger value="internal" className="gap-2">
+                  <Lock className="h-4 w-4" />
+                  Internal Notes
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="discussion">
+                <CommentThread
+                  requestId={request.id}
+                  refreshKey={activityRefreshKey}
+                  onCommentAdded={() => setTimelineRefreshKey(k => k + 1)}
+                />
+              </TabsContent>
+              <TabsContent value="internal">
+                <CommentThread
+                  requestId={request.id}
+                  refreshKey={activityRefreshKey}
+                  internal
+                  onCommentAdded={() => setTimelineRefreshKey(k => k + 1)}
+                />
+              </TabsContent>
+            </Tabs>
+
+            <Separator />
+
+            {/* Timeline Section */}
             <div>
               <h4 className="font-semibold flex items-center gap-2 mb-4">
-                <MessageSquare className="h-4 w-4" />
-                Admin Comments
+                <History className="h-4 w-4" />
+                Timeline
               </h4>
-              
-              {loadingComments ? (
-                <div className="flex items-center justify-center py-6">
-                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
-                </div>
-              ) : comments.length === 0 ? (
-                <p className="text-sm text-muted-foreground text-center py-6 bg-muted/30 rounded-lg">
-                  No comments yet. Add a comment below.
-                </p>
-              ) : (
-                <div className="space-y-3 mb-4">
-                  {comments.map((comment) => (
-                    <div
-                      key={comment.id}
-                      className="rounded-lg bg-muted/50 p-4"
-                    >
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="font-medium text-sm">{comment.admin_name}</span>
-                        <span className="text-xs text-muted-foreground">
-                          {format(new Date(comment.created_at), 'PPp')}
-                        </span>
-                      </div>
-                      <p className="text-sm whitespace-pre-wrap">{comment.comment}</p>
-                    </div>
-                  ))}
-                </div>
-              )}
-
-              {/* Add Comment */}
-              <div className="space-y-3 pt-4 border-t">
-                <Label htmlFor="new-comment">Add Comment</Label>
-                <Textarea
-                  id="new-comment"
-                  placeholder="Write your comment here... The requester will be notified."
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  rows={3}
-                />
-                <Button 
-                  onClick={handleSubmitComment} 
-                  disabled={!newComment.trim() || submittingComment}
-                >
-                  {submittingComment ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Sending...
-                    </>
-                  ) : (
-                    <>
-                      <Send className="mr-2 h-4 w-4" />
-                      Send Comment
-                    </>
-                  )}
-                </Button>
-              </div>
+              <RequestTimeline requestId={request.id} refreshKey={activityRefreshKey + timelineRefreshKey} />
             </div>
           </div>
         </ScrollArea>
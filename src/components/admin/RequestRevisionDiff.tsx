@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { format } from 'date-fns';
+import { ArrowRight, GitCompare } from 'lucide-react';
+import { PROJECT_TYPES } from '@/lib/request-form';
+
+type Revision = Database['public']['Tables']['request_revisions']['Row'];
+
+interface RequestRevisionDiffProps {
+  requestId: string;
+  /** Changes whenever the request row does, so new revisions are picked up */
+  updatedAt?: string;
+}
+
+const FIELDS: { key: keyof Revision; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'project_types', label: 'Project Types' },
+  { key: 'strategic_alignment', label: 'Strategic Alignment' },
+  { key: 'problem_statement', label: 'Problem Statement' },
+  { key: 'expected_outcomes', label: 'Expected Outcomes' },
+  { key: 'estimated_duration', label: 'Estimated Duration' },
+  { key: 'confidentiality_level', label: 'Confidentiality Level' },
+  { key: 'key_dependencies', label: 'Key Dependencies' },
+];
+
+const formatValue = (revision: Revision, key: keyof Revision) => {
+  if (key === 'project_types') {
+    return revision.project_types
+      .map((type) => PROJECT_TYPES.find((t) => t.id === type)?.label || type)
+      .join(', ');
+  }
+  if (key === 'confidentiality_level') {
+    return revision.confidentiality_level.charAt(0).toUpperCase() + revision.confidentiality_level.slice(1);
+  }
+  return (revision[key] as string | null) || '';
+};
+
+export function RequestRevisionDiff({ requestId, updatedAt }: RequestRevisionDiffProps) {
+  const { user } = useAuth();
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [lastSeen, setLastSeen] = useState<number | null>(null);
+  const [fromNumber, setFromNumber] = useState<number | null>(null);
+  const [toNumber, setToNumber] = useState<number | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!user) return;
+
+    const [revisionsResult, viewResult] = await Promise.all([
+      supabase
+        .from('request_revisions')
+        .select('*')
+        .eq('request_id', requestId)
+        .order('revision_number', { ascending: true }),
+      supabase
+        .from('request_revision_views')
+        .select('revision_number')
+        .eq('request_id', requestId)
+        .eq('user_id', user.id)
+        .maybeSingle(),
+    ]);
+
+    if (revisionsResult.error) {
+      console.error('Error fetching revisions:', revisionsResult.error);
+      return;
+    }
+
+    const data = revisionsResult.data;
+    setRevisions(data);
+    if (data.length < 2) return;
+
+    const latest = data[data.length - 1].revision_number;
+    const seen = viewResult.data?.revision_number ?? null;
+
+    // Default to everything that changed since this admin last opened the request,
+    // falling back to the most recent edit once they are up to date
+    let baseline = latest - 1;
+    if (seen === null) {
+      baseline = data[0].revision_number;
+    } else if (seen < latest) {
+      baseline = seen;
+    }
+
+    setLastSeen(seen);
+    setFromNumber(baseline);
+    setToNumber(latest);
+
+    await supabase.from('request_revision_views').upsert({
+      request_id: requestId,
+      user_id: user.id,
+      revision_number: latest,
+      viewed_at: new Date().toISOString(),
+    });
+  }, [requestId, user]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions, updatedAt]);
+
+  if (revisions.length < 2 || fromNumber === null || toNumber === null) return null;
+
+  const latest = revisions[revisions.length - 1].revision_number;
+  const from = revisions.find((r) => r.revision_number === fromNumber);
+  const to = revisions.find((r) => r.revision_number === toNumber);
+  if (!from || !to) return null;
+
+  const changes = FIELDS.filter(({ key }) => formatValue(from, key) !== formatValue(to, key));
+
+  const revisionLabel = (revision: Revision) =>
+    `Revision ${revision.revision_number} · ${format(new Date(revision.created_at), 'MMM d, p')}`;
+
+  return (
+    <>
+      <Separator />
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h4 className="font-semibold flex items-center gap-2">
+            <GitCompare className="h-4 w-4" />
+            Revisions
+          </h4>
+          {lastSeen !== null && lastSeen < latest && (
+            <Badge className="status-warning">Edited since your last review</Badge>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Select value={String(fromNumber)} onValueChange={(v) => setFromNumber(Number(v))}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions
+                .filter((r) => r.revision_number < toNumber)
+                .map((r) => (
+                  <SelectItem key={r.id} value={String(r.revision_number)}>
+                    {revisionLabel(r)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Select value={String(toNumber)} onValueChange={(v) => setToNumber(Number(v))}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions
+                .filter((r) => r.revision_number > fromNumber)
+                .map((r) => (
+                  <SelectItem key={r.id} value={String(r.revision_number)}>
+                    {revisionLabel(r)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6 bg-muted/30 rounded-lg">
+            No differences between these revisions
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {changes.map(({ key, label }) => (
+              <div key={key}>
+                <h5 className="text-sm font-semibold mb-1">{label}</h5>
+                <div className="grid grid-cols-2 gap-2">
+                  {[from, to].map((revision, i) => {
+                    const value = formatValue(revision, key);
+                    return (
+                      <div
+                        key={revision.id}
+                        className={`rounded-lg border p-3 text-sm whitespace-pre-wrap ${
+                          i === 0 ? 'bg-destructive/5 border-destructive/20' : 'bg-success/5 border-success/20'
+                        }`}
+                      >
+                        {value || <span className="italic text-muted-foreground">Not provided</span>}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              {FIELDS.length - changes.length} of {FIELDS.length} fields unchanged
+            </p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
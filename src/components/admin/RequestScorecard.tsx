@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Separator } from '@/components/ui/separator';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { toast } from 'sonner';
+import { Gauge } from 'lucide-react';
+import { useAdmins } from '@/hooks/use-admins';
+
+type ScoringCriterion = Database['public']['Tables']['scoring_criteria']['Row'];
+type RequestScore = Database['public']['Tables']['request_scores']['Row'];
+type ScoreSummary = Database['public']['Views']['request_score_summaries']['Row'];
+
+interface RequestScorecardProps {
+  requestId: string;
+}
+
+const SCALE = [1, 2, 3, 4, 5];
+
+export function RequestScorecard({ requestId }: RequestScorecardProps) {
+  const { user } = useAuth();
+  const { getAdminName } = useAdmins();
+  const [criteria, setCriteria] = useState<ScoringCriterion[]>([]);
+  const [scores, setScores] = useState<RequestScore[]>([]);
+  const [summary, setSummary] = useState<ScoreSummary | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const fetchScores = useCallback(async () => {
+    const [criteriaResult, scoresResult, summaryResult] = await Promise.all([
+      supabase
+        .from('scoring_criteria')
+        .select('*')
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('request_scores')
+        .select('*')
+        .eq('request_id', requestId),
+      supabase
+        .from('request_score_summaries')
+        .select('*')
+        .eq('request_id', requestId)
+        .maybeSingle(),
+    ]);
+
+    const fetchError = criteriaResult.error || scoresResult.error || summaryResult.error;
+    if (fetchError) {
+      console.error('Error fetching scores:', fetchError);
+      return;
+    }
+
+    setCriteria(criteriaResult.data);
+    setScores(scoresResult.data);
+    setSummary(summaryResult.data);
+  }, [requestId]);
+
+  useEffect(() => {
+    fetchScores();
+  }, [fetchScores]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`request-scores-${requestId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'request_scores', filter: `request_id=eq.${requestId}` },
+        () => fetchScores()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [requestId, fetchScores]);
+
+  const handleScore = async (criterionId: string, value: string) => {
+    if (!user || !value) return;
+
+    setSavingId(criterionId);
+    const { error } = await supabase
+      .from('request_scores')
+      .upsert(
+        { request_id: requestId, criterion_id: criterionId, reviewer_id: user.id, score: Number(value) },
+        { onConflict: 'request_id,criterion_id,reviewer_id' }
+      );
+
+    if (error) {
+      toast.error('Failed to save score: ' + error.message);
+    } else {
+      fetchScores();
+    }
+    setSavingId(null);
+  };
+
+  // Nothing to score against until an admin defines the rubric in Settings
+  if (criteria.length === 0) return null;
+
+  const reviewerIds = [...new Set(scores.map((s) => s.reviewer_id))];
+
+  const sheetScore = (reviewerId: string) => {
+    let total = 0;
+    let weights = 0;
+    for (const score of scores.filter((s) => s.reviewer_id === reviewerId)) {
+      const weight = criteria.find((c) => c.id === score.criterion_id)?.weight ?? 0;
+      total += score.score * weight;
+      weights += weight;
+    }
+    return weights > 0 ? total / weights : null;
+  };
+
+  return (
+    <>
+      <Separator />
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h4 className="font-semibold flex items-center gap-2">
+            <Gauge className="h-4 w-4" />
+            Score
+          </h4>
+          {summary?.weighted_score != null ? (
+            <span className="text-sm text-muted-foreground">
+              <span className="text-lg font-bold text-foreground">{summary.weighted_score.toFixed(2)}</span> / 5
+              {' · '}
+              {summary.reviewer_count} reviewer{summary.reviewer_count === 1 ? '' : 's'}
+            </span>
+          ) : (
+            <span className="text-sm text-muted-foreground">Not scored yet</span>
+          )}
+        </div>
+
+        {/* Score Sheet & Distribution */}
+        <div className="space-y-4">
+          {criteria.map((criterion) => {
+            const criterionScores = scores.filter((s) => s.criterion_id === criterion.id);
+            const ownScore = criterionScores.find((s) => s.reviewer_id === user?.id);
+            const mean = criterionScores.length > 0
+              ? criterionScores.reduce((sum, s) => sum + s.score, 0) / criterionScores.length
+              : null;
+            const maxCount = Math.max(1, ...SCALE.map((v) => criterionScores.filter((s) => s.score === v).length));
+
+            return (
+              <div key={criterion.id} className="rounded-lg border p-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {criterion.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">×{criterion.weight}</span>
+                    </p>
+                    {criterion.description && (
+                      <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                    )}
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    variant="outline"
+                    value={ownScore ? String(ownScore.score) : ''}
+                    onValueChange={(value) => handleScore(criterion.id, value)}
+                    disabled={savingId === criterion.id}
+                  >
+                    {SCALE.map((value) => (
+                      <ToggleGroupItem key={value} value={String(value)} className="h-8 w-8 p-0">
+                        {value}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+
+                {criterionScores.length > 0 && (
+                  <div className="mt-3 flex items-end gap-3">
+                    <div className="flex items-end gap-1 h-10">
+                      {SCALE.map((value) => {
+                        const count = criterionScores.filter((s) => s.score === value).length;
+                        return (
+                          <div
+                            key={value}
+                            className="w-6 rounded-t bg-primary/70"
+                            style={{ height: `${Math.max(4, (count / maxCount) * 100)}%`, opacity: count ? 1 : 0.2 }}
+                            title={`${count} reviewer${count === 1 ? '' : 's'} scored ${value}`}
+                          />
+                        );
+                      })}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      Mean {mean?.toFixed(1)} from {criterionScores.length}
+                    </span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {reviewerIds.length > 0 && (
+          <div className="mt-4 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {reviewerIds.map((reviewerId) => (
+              <span key={reviewerId}>
+                {reviewerId === user?.id ? 'You' : getAdminName(reviewerId)}:{' '}
+                <span className="font-medium text-foreground">{sheetScore(reviewerId)?.toFixed(2)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
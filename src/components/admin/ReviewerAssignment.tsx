@@ -0,0 +1,113 @@
+import { useAuth } from '@/lib/auth';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { UserCheck, X } from 'lucide-react';
+import { useAdmins } from '@/hooks/use-admins';
+
+interface ReviewerAssignmentProps {
+  assignedTo: string | null;
+  coReviewerIds: string[];
+  disabled?: boolean;
+  onAssign: (userId: string | null) => void;
+  onAddCoReviewer: (userId: string) => void;
+  onRemoveCoReviewer: (userId: string) => void;
+}
+
+export function ReviewerAssignment({
+  assignedTo,
+  coReviewerIds,
+  disabled = false,
+  onAssign,
+  onAddCoReviewer,
+  onRemoveCoReviewer,
+}: ReviewerAssignmentProps) {
+  const { user } = useAuth();
+  const { admins, getAdminName } = useAdmins();
+
+  const availableCoReviewers = admins.filter(
+    (a) => a.user_id !== assignedTo && !coReviewerIds.includes(a.user_id)
+  );
+
+  const adminLabel = (userId: string) =>
+    userId === user?.id ? `${getAdminName(userId)} (you)` : getAdminName(userId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label className="w-28">Lead reviewer:</Label>
+        <Select
+          value={assignedTo ?? 'unassigned'}
+          onValueChange={(value) => onAssign(value === 'unassigned' ? null : value)}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+            {admins.map((admin) => (
+              <SelectItem key={admin.user_id} value={admin.user_id}>
+                {adminLabel(admin.user_id)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {user && assignedTo !== user.id && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => onAssign(user.id)}
+            disabled={disabled}
+          >
+            <UserCheck className="h-4 w-4" />
+            Assign to me
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Label className="w-28">Co-reviewers:</Label>
+        {coReviewerIds.map((userId) => (
+          <Badge key={userId} variant="secondary" className="gap-1 pr-1">
+            {adminLabel(userId)}
+            <button
+              type="button"
+              onClick={() => onRemoveCoReviewer(userId)}
+              disabled={disabled}
+              className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+              title="Remove co-reviewer"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        {availableCoReviewers.length > 0 && (
+          <Select value="" onValueChange={onAddCoReviewer} disabled={disabled}>
+            <SelectTrigger className="w-[180px] h-8 text-xs">
+              <SelectValue placeholder="Add co-reviewer" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableCoReviewers.map((admin) => (
+                <SelectItem key={admin.user_id} value={admin.user_id}>
+                  {adminLabel(admin.user_id)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {coReviewerIds.length === 0 && availableCoReviewers.length === 0 && (
+          <span className="text-sm text-muted-foreground">None</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Gauge, Loader2, Trash2 } from 'lucide-react';
+
+type ScoringCriterion = Database['public']['Tables']['scoring_criteria']['Row'];
+
+export function ScoringRubric() {
+  const { user } = useAuth();
+  const [criteria, setCriteria] = useState<ScoringCriterion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [weight, setWeight] = useState('1');
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCriteria();
+  }, []);
+
+  const fetchCriteria = async () => {
+    const { data, error } = await supabase
+      .from('scoring_criteria')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching scoring criteria:', error);
+    } else {
+      setCriteria(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedWeight = parseInt(weight, 10);
+    if (!user || !name.trim() || !(parsedWeight >= 1 && parsedWeight <= 10)) return;
+
+    setCreating(true);
+    const { data, error } = await supabase
+      .from('scoring_criteria')
+      .insert({
+        name: name.trim(),
+        description: description.trim() || null,
+        weight: parsedWeight,
+        sort_order: criteria.length,
+        created_by: user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      toast.error('Failed to add criterion: ' + error.message);
+    } else {
+      toast.success('Criterion added');
+      setCriteria([...criteria, data]);
+      setName('');
+      setDescription('');
+      setWeight('1');
+    }
+    setCreating(false);
+  };
+
+  const handleWeightChange = async (criterion: ScoringCriterion, value: string) => {
+    const parsedWeight = parseInt(value, 10);
+    if (!(parsedWeight >= 1 && parsedWeight <= 10) || parsedWeight === criterion.weight) return;
+
+    setBusyId(criterion.id);
+    const { error } = await supabase
+      .from('scoring_criteria')
+      .update({ weight: parsedWeight })
+      .eq('id', criterion.id);
+
+    if (error) {
+      toast.error('Failed to update weight: ' + error.message);
+    } else {
+      setCriteria(criteria.map(c => (c.id === criterion.id ? { ...c, weight: parsedWeight } : c)));
+    }
+    setBusyId(null);
+  };
+
+  const handleDelete = async (criterion: ScoringCriterion) => {
+    if (!confirm(`Delete "${criterion.name}"? Every score recorded against it will be removed.`)) return;
+
+    setBusyId(criterion.id);
+    const { error } = await supabase.from('scoring_criteria').delete().eq('id', criterion.id);
+
+    if (error) {
+      toast.error('Failed to delete criterion: ' + error.message);
+    } else {
+      toast.success('Criterion deleted');
+      setCriteria(criteria.filter(c => c.id !== criterion.id));
+    }
+    setBusyId(null);
+  };
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* New Criterion */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Scoring Rubric
+          </CardTitle>
+          <CardDescription>
+            Reviewers rate each criterion from 1 to 5. A request's score is the weighted average of every
+            reviewer's sheet, so heavier criteria count for more.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-[1fr_2fr_120px_auto] md:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="criterion-name">Criterion *</Label>
+              <Input
+                id="criterion-name"
+                placeholder="e.g., Feasibility"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="criterion-description">Guidance</Label>
+              <Input
+                id="criterion-description"
+                placeholder="What a 5 looks like..."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="criterion-weight">Weight (1-10)</Label>
+              <Input
+                id="criterion-weight"
+                type="number"
+                min={1}
+                max={10}
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={creating || !name.trim()}>
+              {creating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                'Add Criterion'
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Criteria Table */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Criterion</TableHead>
+                  <TableHead>Guidance</TableHead>
+                  <TableHead>Weight</TableHead>
+                  <TableHead>Share</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {criteria.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-12 text-muted-foreground">
+                      No criteria yet. Add one to start scoring requests.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  criteria.map((criterion) => (
+                    <TableRow key={criterion.id}>
+                      <TableCell className="font-medium">{criterion.name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-[320px]">
+                        {criterion.description}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={10}
+                          defaultValue={criterion.weight}
+                          onBlur={(e) => handleWeightChange(criterion, e.target.value)}
+                          disabled={busyId === criterion.id}
+                          className="w-20"
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {Math.round((criterion.weight / totalWeight) * 100)}%
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(criterion)}
+                          disabled={busyId === criterion.id}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { AlarmClock, Loader2, Trash2 } from 'lucide-react';
+import { PROJECT_TYPES } from '@/lib/request-form';
+
+type SlaPolicy = Database['public']['Tables']['sla_policies']['Row'];
+
+const DEFAULT_POLICY = 'default';
+
+const policyLabel = (policy: SlaPolicy) =>
+  policy.project_type
+    ? PROJECT_TYPES.find(t => t.id === policy.project_type)?.label || policy.project_type
+    : 'All other types';
+
+export function SlaPolicies() {
+  const { user } = useAuth();
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [projectType, setProjectType] = useState('');
+  const [days, setDays] = useState('3');
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    const { data, error } = await supabase
+      .from('sla_policies')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching SLA policies:', error);
+    } else {
+      setPolicies(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedDays = parseInt(days, 10);
+    if (!user || !projectType || !(parsedDays >= 1)) return;
+
+    setCreating(true);
+    const { data, error } = await supabase
+      .from('sla_policies')
+      .insert({
+        project_type: projectType === DEFAULT_POLICY ? null : projectType,
+        first_response_business_days: parsedDays,
+        created_by: user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      toast.error('Failed to add SLA policy: ' + error.message);
+    } else {
+      toast.success('SLA policy added. It applies to requests submitted from now on.');
+      setPolicies([...policies, data]);
+      setProjectType('');
+      setDays('3');
+    }
+    setCreating(false);
+  };
+
+  const handleDaysChange = async (policy: SlaPolicy, value: string) => {
+    const parsedDays = parseInt(value, 10);
+    if (!(parsedDays >= 1) || parsedDays === policy.first_response_business_days) return;
+
+    setBusyId(policy.id);
+    const { error } = await supabase
+      .from('sla_policies')
+      .update({ first_response_business_days: parsedDays })
+      .eq('id', policy.id);
+
+    if (error) {
+      toast.error('Failed to update SLA policy: ' + error.message);
+    } else {
+      setPolicies(policies.map(p => (p.id === policy.id ? { ...p, first_response_business_days: parsedDays } : p)));
+    }
+    setBusyId(null);
+  };
+
+  const handleDelete = async (policy: SlaPolicy) => {
+    if (!confirm(`Remove the SLA policy for ${policyLabel(policy)}?`)) return;
+
+    setBusyId(policy.id);
+    const { error } = await supabase.from('sla_policies').delete().eq('id', policy.id);
+
+    if (error) {
+      toast.error('Failed to remove SLA policy: ' + error.message);
+    } else {
+      toast.success('SLA policy removed');
+      setPolicies(policies.filter(p => p.id !== policy.id));
+    }
+    setBusyId(null);
+  };
+
+  const hasDefault = policies.some(p => !p.project_type);
+  const availableTypes = PROJECT_TYPES.filter(t => !policies.some(p => p.project_type === t.id));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* New Policy */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <AlarmClock className="h-5 w-5" />
+            Response Targets
+          </CardTitle>
+          <CardDescription>
+            How many business days admins have to respond to a new request. Requests spanning several types
+            get the shortest target. The assigned reviewer, or every admin if nobody is assigned, is notified
+            when a target is missed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="sla-type">Project Type</Label>
+              <Select value={projectType} onValueChange={setProjectType}>
+                <SelectTrigger id="sla-type">
+                  <SelectValue placeholder="Select a project type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {!hasDefault && <SelectItem value={DEFAULT_POLICY}>All other types</SelectItem>}
+                  {availableTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sla-days">Business Days</Label>
+              <Input
+                id="sla-days"
+                type="number"
+                min={1}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className="w-32"
+                required
+              />
+            </div>
+            <Button type="submit" disabled={creating || !projectType}>
+              {creating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                'Add Target'
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Policies Table */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project Type</TableHead>
+                  <TableHead>First Response Within</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-12 text-muted-foreground">
+                      No response targets. Requests won't be tracked against a deadline.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  policies.map((policy) => (
+                    <TableRow key={policy.id}>
+                      <TableCell className="font-medium">{policyLabel(policy)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min={1}
+                            defaultValue={policy.first_response_business_days}
+                            onBlur={(e) => handleDaysChange(policy, e.target.value)}
+                            disabled={busyId === policy.id}
+                            className="w-20"
+                          />
+                          <span className="text-sm text-muted-foreground">business days</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(policy)}
+                          disabled={busyId === policy.id}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Remove
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+
+interface StatusCommentDialogProps {
+  statusLabel: string | null;
+  submitting: boolean;
+  onConfirm: (comment: string) => void;
+  onCancel: () => void;
+}
+
+export function StatusCommentDialog({ statusLabel, submitting, onConfirm, onCancel }: StatusCommentDialogProps) {
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    setComment('');
+  }, [statusLabel]);
+
+  return (
+    <Dialog open={!!statusLabel} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move to {statusLabel}</DialogTitle>
+          <DialogDescription>
+            A comment is required for this status change. The requester will be notified.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="status-comment">Comment</Label>
+          <Textarea
+            id="status-comment"
+            placeholder="Explain the reason for this status change..."
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={4}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(comment.trim())} disabled={!comment.trim() || submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update Status
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
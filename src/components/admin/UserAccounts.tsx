@@ -0,0 +1,347 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, Search, Lock, LockOpen, UserX, UserCheck, FileText } from 'lucide-react';
+import { useAdmins } from '@/hooks/use-admins';
+import { UserRequestsDialog } from './UserRequestsDialog';
+
+type UserAccount = Database['public']['Functions']['get_user_accounts']['Returns'][number];
+
+type UserRole = UserAccount['role'];
+
+type RoleFilter = 'all' | UserRole | 'deactivated';
+
+const roleConfig: Record<string, { label: string; className: string }> = {
+  admin: { label: 'Admin', className: 'status-in-review' },
+  reviewer: { label: 'Reviewer', className: 'status-warning' },
+  user: { label: 'Requester', className: 'status-pending' },
+};
+
+const roleChangeMessages: Record<UserRole, string> = {
+  admin: 'They will be able to see and act on every request.',
+  reviewer: 'They will only see the requests assigned to them, and their approval and export duties will be released.',
+  user: 'Their open assignments and export clearance will be released.',
+};
+
+export function UserAccounts() {
+  const { user } = useAuth();
+  const { getAdminName } = useAdmins();
+  const queryClient = useQueryClient();
+  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  const [restrictedGrants, setRestrictedGrants] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [viewingAccount, setViewingAccount] = useState<UserAccount | null>(null);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const fetchAccounts = async () => {
+    const [accountsResult, grantsResult] = await Promise.all([
+      supabase.rpc('get_user_accounts'),
+      supabase.from('restricted_access_grants').select('user_id'),
+    ]);
+
+    if (accountsResult.error) {
+      console.error('Error fetching user accounts:', accountsResult.error);
+    } else {
+      setAccounts(accountsResult.data);
+    }
+    if (grantsResult.error) {
+      console.error('Error fetching restricted access grants:', grantsResult.error);
+    } else {
+      setRestrictedGrants(new Set(grantsResult.data.map(g => g.user_id)));
+    }
+    setLoading(false);
+  };
+
+  const handleRoleChange = async (account: UserAccount, role: UserRole) => {
+    const isSelf = account.user_id === user?.id;
+    const message = isSelf
+      ? 'Give up your admin access? You will lose access to the admin settings straight away.'
+      : `Make ${account.full_name} ${role === 'admin' ? 'an admin' : `a ${roleConfig[role].label.toLowerCase()}`}? ${roleChangeMessages[role]}`;
+    if (!confirm(message)) return;
+
+    setBusyId(account.user_id);
+    const { error } = await supabase.rpc('set_user_role', { _user_id: account.user_id, _role: role });
+
+    if (error) {
+      toast.error('Failed to change role: ' + error.message);
+      setBusyId(null);
+      return;
+    }
+
+    // The role is read once at sign-in, so reload to pick up the reduced access
+    if (isSelf) {
+      window.location.href = role === 'reviewer' ? '/admin/dashboard' : '/dashboard';
+      return;
+    }
+
+    toast.success(`${account.full_name} is now ${role === 'admin' ? 'an admin' : `a ${roleConfig[role].label.toLowerCase()}`}`);
+    queryClient.invalidateQueries({ queryKey: ['admins'] });
+    await fetchAccounts();
+    setBusyId(null);
+  };
+
+  const handleRestrictedAccessChange = async (account: UserAccount, granted: boolean) => {
+    setBusyId(account.user_id);
+    const { error } = granted
+      ? await supabase
+          .from('restricted_access_grants')
+          .insert({ user_id: account.user_id, granted_by: user?.id })
+      : await supabase
+          .from('restricted_access_grants')
+          .delete()
+          .eq('user_id', account.user_id);
+
+    if (error) {
+      toast.error('Failed to update restricted access: ' + error.message);
+    } else {
+      toast.success(
+        granted
+          ? `${account.full_name} can now review restricted requests assigned to them`
+          : `${account.full_name} can no longer see restricted requests`
+      );
+      await fetchAccounts();
+    }
+    setBusyId(null);
+  };
+
+  const handleActiveChange = async (account: UserAccount, active: boolean) => {
+    if (
+      !active &&
+      !confirm(`Deactivate ${account.full_name}? They will be signed out and unable to sign in until reactivated.`)
+    ) {
+      return;
+    }
+
+    setBusyId(account.user_id);
+    const { error } = await supabase.rpc('set_user_active', { _user_id: account.user_id, _active: active });
+
+    if (error) {
+      toast.error(`Failed to ${active ? 'reactivate' : 'deactivate'} account: ` + error.message);
+    } else {
+      toast.success(`${account.full_name} has been ${active ? 'reactivated' : 'deactivated'}`);
+      await fetchAccounts();
+    }
+    setBusyId(null);
+  };
+
+  const query = search.trim().toLowerCase();
+  const filteredAccounts = accounts.filter((account) => {
+    if (roleFilter === 'deactivated' ? !account.deactivated_at : roleFilter !== 'all' && account.role !== roleFilter) {
+      return false;
+    }
+    return (
+      !query ||
+      account.full_name.toLowerCase().includes(query) ||
+      account.email.toLowerCase().includes(query)
+    );
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Tabs value={roleFilter} onValueChange={(value) => setRoleFilter(value as RoleFilter)}>
+              <TabsList>
+                <TabsTrigger value="all">All</TabsTrigger>
+                <TabsTrigger value="admin">Admins</TabsTrigger>
+                <TabsTrigger value="reviewer">Reviewers</TabsTrigger>
+                <TabsTrigger value="user">Requesters</TabsTrigger>
+                <TabsTrigger value="deactivated">Deactivated</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or email..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Accounts Table */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Signed Up</TableHead>
+                  <TableHead>Last Sign-in</TableHead>
+                  <TableHead>Requests</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredAccounts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                      No accounts found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredAccounts.map((account) => {
+                    const isSelf = account.user_id === user?.id;
+                    const isBusy = busyId === account.user_id;
+                    const role = roleConfig[account.role] ?? roleConfig.user;
+                    return (
+                      <TableRow key={account.user_id}>
+                        <TableCell>
+                          <p className="font-medium">{account.full_name}{isSelf && ' (you)'}</p>
+                          <p className="text-xs text-muted-foreground">{account.email}</p>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge className={role.className}>{role.label}</Badge>
+                            {account.role === 'reviewer' && restrictedGrants.has(account.user_id) && (
+                              <Lock className="h-3.5 w-3.5 text-muted-foreground" aria-label="Can see restricted requests" />
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {account.deactivated_at ? (
+                            <div>
+                              <Badge className="status-rejected">Deactivated</Badge>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {format(new Date(account.deactivated_at), 'MMM d, yyyy')}
+                                {account.deactivated_by && ` by ${getAdminName(account.deactivated_by)}`}
+                              </p>
+                            </div>
+                          ) : (
+                            <Badge className="status-approved">Active</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {format(new Date(account.created_at), 'MMM d, yyyy')}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {account.last_sign_in_at ? format(new Date(account.last_sign_in_at), 'MMM d, yyyy') : 'Never'}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setViewingAccount(account)}
+                            disabled={account.request_count === 0}
+                          >
+                            <FileText className="h-4 w-4 mr-1" />
+                            {account.request_count}
+                            {account.open_request_count > 0 && (
+                              <span className="ml-1 text-muted-foreground">({account.open_request_count} open)</span>
+                            )}
+                          </Button>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end items-center gap-1">
+                            <Select
+                              value={account.role}
+                              onValueChange={(value) => handleRoleChange(account, value as UserRole)}
+                              disabled={isBusy || !!account.deactivated_at}
+                            >
+                              <SelectTrigger className="w-32 h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="user">Requester</SelectItem>
+                                <SelectItem value="reviewer">Reviewer</SelectItem>
+                                <SelectItem value="admin">Admin</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            {account.role === 'reviewer' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRestrictedAccessChange(account, !restrictedGrants.has(account.user_id))}
+                                disabled={isBusy}
+                              >
+                                {restrictedGrants.has(account.user_id) ? (
+                                  <>
+                                    <LockOpen className="h-4 w-4 mr-1" />
+                                    Revoke Restricted
+                                  </>
+                                ) : (
+                                  <>
+                                    <Lock className="h-4 w-4 mr-1" />
+                                    Grant Restricted
+                                  </>
+                                )}
+                              </Button>
+                            )}
+                            {account.deactivated_at ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleActiveChange(account, true)}
+                                disabled={isBusy}
+                              >
+                                <UserCheck className="h-4 w-4 mr-1" />
+                                Reactivate
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleActiveChange(account, false)}
+                                disabled={isBusy || isSelf}
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <UserX className="h-4 w-4 mr-1" />
+                                Deactivate
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <UserRequestsDialog account={viewingAccount} onClose={() => setViewingAccount(null)} />
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { Archive, Loader2 } from 'lucide-react';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+
+interface UserRequest {
+  id: string;
+  title: string;
+  status: string;
+  created_at: string;
+  submitted_at: string | null;
+  archived_at: string | null;
+}
+
+interface UserRequestsDialogProps {
+  account: { user_id: string; full_name: string } | null;
+  onClose: () => void;
+}
+
+export function UserRequestsDialog({ account, onClose }: UserRequestsDialogProps) {
+  const { getStatusConfig } = useRequestWorkflow();
+  const [requests, setRequests] = useState<UserRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const accountId = account?.user_id;
+
+  const fetchRequests = useCallback(async (userId: string) => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('project_requests')
+      .select('id, title, status, created_at, submitted_at, archived_at')
+      .eq('user_id', userId)
+      .neq('status', 'draft')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching user requests:', error);
+      setRequests([]);
+    } else {
+      setRequests(data);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (accountId) fetchRequests(accountId);
+  }, [accountId, fetchRequests]);
+
+  return (
+    <Dialog open={!!account} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Requests by {account?.full_name}</DialogTitle>
+          <DialogDescription>Drafts are not shown. Open a request to review it on the dashboard.</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No submitted requests</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y rounded-md border">
+            {requests.map((request) => {
+              const status = getStatusConfig(request.status);
+              return (
+                <Link
+                  key={request.id}
+                  to={`/admin/dashboard?request=${request.id}`}
+                  className="flex items-center justify-between gap-4 p-3 hover:bg-muted/50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{request.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Submitted {format(new Date(request.submitted_at ?? request.created_at), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {request.archived_at && <Archive className="h-4 w-4 text-muted-foreground" />}
+                    <Badge className={status.className}>{status.label}</Badge>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,14 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
-import { Loader2, Mail, Lock, User } from 'lucide-react';
+import { Loader2, Mail, Lock, User, ShieldAlert } from 'lucide-react';
 import logo from '@/assets/logo.png';
 
 export function AdminAuthForm() {
@@ -17,9 +18,31 @@ export function AdminAuthForm() {
   const [signupEmail, setSignupEmail] = useState('');
   const [signupPassword, setSignupPassword] = useState('');
   const [signupName, setSignupName] = useState('');
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const [inviteStatus, setInviteStatus] = useState<'none' | 'checking' | 'valid' | 'invalid'>(
+    inviteToken ? 'checking' : 'none'
+  );
   const { signIn, signUp } = useAuth();
   const navigate = useNavigate();
 
+  useEffect(() => {
+    if (inviteToken) {
+      checkInvitation(inviteToken);
+    }
+  }, [inviteToken]);
+
+  const checkInvitation = async (token: string) => {
+    const { data, error } = await supabase.rpc('get_admin_invitation', { _token: token });
+
+    if (error || !data || data.length === 0) {
+      setInviteStatus('invalid');
+    } else {
+      setSignupEmail(data[0].email);
+      setInviteStatus('valid');
+    }
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -38,9 +61,10 @@ export function AdminAuthForm() {
 
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!inviteToken || inviteStatus !== 'valid') return;
     setIsLoading(true);
 
-    const { error } = await signUp(signupEmail, signupPassword, signupName, true);
+    const { error } = await signUp(signupEmail, signupPassword, signupName, inviteToken);
 
     if (error) {
       toast.error(error.message);
@@ -61,7 +85,7 @@ export function AdminAuthForm() {
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <Tabs defaultValue="login" className="w-full">
+        <Tabs defaultValue={inviteToken ? 'signup' : 'login'} className="w-full">
           <TabsList className="grid w-full grid-cols-2 mb-6">
             <TabsTrigger value="login">Sign In</TabsTrigger>
             <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -113,67 +137,85 @@ export function AdminAuthForm() {
           </TabsContent>
 
           <TabsContent value="signup">
-            <form onSubmit={handleSignup} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="admin-signup-name">Full Name</Label>
-                <div className="relative">
-                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="admin-signup-name"
-                    type="text"
-                    placeholder="John Doe"
-                    value={signupName}
-                    onChange={(e) => setSignupName(e.target.value)}
-                    className="pl-10"
-                    required
-                  />
-                </div>
+            {inviteStatus === 'checking' ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="admin-signup-email">Email</Label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="admin-signup-email"
-                    type="email"
-                    placeholder="admin@organization.com"
-                    value={signupEmail}
-                    onChange={(e) => setSignupEmail(e.target.value)}
-                    className="pl-10"
-                    required
-                  />
-                </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="admin-signup-password">Password</Label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="admin-signup-password"
-                    type="password"
-                    placeholder="••••••••"
-                    value={signupPassword}
-                    onChange={(e) => setSignupPassword(e.target.value)}
-                    className="pl-10"
-                    minLength={6}
-                    required
-                  />
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  Password must be at least 6 characters
+            ) : inviteStatus !== 'valid' ? (
+              <div className="flex flex-col items-center text-center py-8 px-4">
+                <ShieldAlert className="h-10 w-10 text-muted-foreground mb-4" />
+                <p className="font-medium mb-1">
+                  {inviteStatus === 'invalid' ? 'Invitation not valid' : 'Invitation required'}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {inviteStatus === 'invalid'
+                    ? 'This invitation link has expired, been revoked or already been used. Ask an administrator to re-send it.'
+                    : 'Admin accounts can only be created from an invitation link issued by an existing administrator.'}
                 </p>
               </div>
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Creating account...
-                  </>
-                ) : (
-                  'Create Admin Account'
-                )}
-              </Button>
-            </form>
+            ) : (
+              <form onSubmit={handleSignup} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="admin-signup-name">Full Name</Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="admin-signup-name"
+                      type="text"
+                      placeholder="John Doe"
+                      value={signupName}
+                      onChange={(e) => setSignupName(e.target.value)}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="admin-signup-email">Email</Label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="admin-signup-email"
+                      type="email"
+                      placeholder="admin@organization.com"
+                      value={signupEmail}
+                      className="pl-10"
+                      readOnly
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="admin-signup-password">Password</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="admin-signup-password"
+                      type="password"
+                      placeholder="••••••••"
+                      value={signupPassword}
+                      onChange={(e) => setSignupPassword(e.target.value)}
+                      className="pl-10"
+                      minLength={6}
+                      required
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Password must be at least 6 characters
+                  </p>
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Creating account...
+                    </>
+                  ) : (
+                    'Create Admin Account'
+                  )}
+                </Button>
+              </form>
+            )}
           </TabsContent>
         </Tabs>
       </CardContent>
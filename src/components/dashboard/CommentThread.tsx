@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { isStaffRole } from '@/lib/roles';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Send, Loader2 } from 'lucide-react';
+
+interface Comment {
+  id: string;
+  comment: string;
+  created_at: string;
+  author_id: string;
+  author_role: string;
+  author_name: string | null;
+}
+
+interface CommentThreadProps {
+  requestId: string;
+  refreshKey?: number;
+  compact?: boolean;
+  /** Admin-only notes that are hidden from the requester and never notify anyone */
+  internal?: boolean;
+  onCommentAdded?: () => void;
+}
+
+export function CommentThread({
+  requestId,
+  refreshKey = 0,
+  compact = false,
+  internal = false,
+  onCommentAdded,
+}: CommentThreadProps) {
+  const { user, role } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [newComment, setNewComment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  // Parents pass a fresh callback on every render; reading it through a ref keeps the
+  // realtime subscription from being torn down each time
+  const onCommentAddedRef = useRef(onCommentAdded);
+
+  useEffect(() => {
+    onCommentAddedRef.current = onCommentAdded;
+  }, [onCommentAdded]);
+
+  const fetchComments = useCallback(async () => {
+    // author_name is computed by the database; it is null where profile RLS hides the
+    // author, e.g. admins as seen by a requester
+    const { data, error } = await supabase
+      .from('comments')
+      .select('id, comment, created_at, author_id, author_role, author_name')
+      .eq('request_id', requestId)
+      .eq('is_internal', internal)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching comments:', error);
+    } else {
+      setComments(data || []);
+    }
+    setLoading(false);
+  }, [requestId, internal]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments, refreshKey]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`comments-${requestId}-${internal ? 'internal' : 'public'}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comments', filter: `request_id=eq.${requestId}` },
+        (payload) => {
+          const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { is_internal?: boolean };
+          if (row.is_internal !== undefined && row.is_internal !== internal) return;
+          fetchComments();
+          if (payload.eventType === 'INSERT') {
+            onCommentAddedRef.current?.();
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [requestId, internal, fetchComments]);
+
+  const handleSubmit = async () => {
+    if (!user || !newComment.trim()) return;
+
+    setSubmitting(true);
+    const { error } = await supabase.from('comments').insert({
+      request_id: requestId,
+      author_id: user.id,
+      comment: newComment.trim(),
+      is_internal: internal,
+    });
+
+    if (error) {
+      toast.error('Failed to add comment: ' + error.message);
+    } else {
+      toast.success(
+        internal
+          ? 'Internal note added'
+          : isStaffRole(role)
+            ? 'Comment added and notification sent to requester'
+            : 'Reply sent to the reviewing admins'
+      );
+      setNewComment('');
+      fetchComments();
+      onCommentAdded?.();
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div>
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6 bg-muted/30 rounded-lg">
+          {internal
+            ? 'No internal notes yet. Notes are only visible to admins.'
+            : 'No messages yet. Start the conversation below.'}
+        </p>
+      ) : (
+        <div className={`space-y-3 mb-4 ${compact ? 'max-h-[50vh] overflow-y-auto' : ''}`}>
+          {comments.map((comment) => (
+            <div
+              key={comment.id}
+              className={`rounded-lg p-4 ${
+                internal
+                  ? 'bg-warning/5 border border-warning/20'
+                  : comment.author_role === 'admin'
+                    ? 'bg-muted/50'
+                    : 'bg-accent/5 border border-accent/20'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium text-sm truncate">
+                    {comment.author_id === user?.id
+                      ? 'You'
+                      : comment.author_name || (comment.author_role === 'admin' ? 'Admin' : 'Requester')}
+                  </span>
+                  <Badge variant="outline" className="text-xs capitalize">
+                    {comment.author_role}
+                  </Badge>
+                </div>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {format(new Date(comment.created_at), compact ? 'MMM d' : 'PPp')}
+                </span>
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{comment.comment}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add Comment */}
+      <div className="space-y-3 pt-4 border-t">
+        <Label htmlFor={`new-comment-${requestId}-${internal ? 'internal' : 'public'}`}>
+          {internal ? 'Add Internal Note' : isStaffRole(role) ? 'Add Comment' : 'Reply'}
+        </Label>
+        <Textarea
+          id={`new-comment-${requestId}-${internal ? 'internal' : 'public'}`}
+          placeholder={
+            internal
+              ? 'Record deliberation for other admins... The requester will not see this.'
+              : isStaffRole(role)
+                ? 'Write your comment here... The requester will be notified.'
+                : 'Answer a question or add context... The reviewing admins will be notified.'
+          }
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          rows={3}
+        />
+        <Button
+          onClick={handleSubmit}
+          disabled={!newComment.trim() || submitting}
+          size={compact ? 'sm' : 'default'}
+        >
+          {submitting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Sending...
+            </>
+          ) : (
+            <>
+              <Send className="mr-2 h-4 w-4" />
+              Send
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
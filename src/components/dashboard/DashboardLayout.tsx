@@ -3,6 +3,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
 import { NotificationsPanel } from './NotificationsPanel';
+import { useUnreadNotificationCount } from '@/hooks/use-unread-notifications';
 import { 
   LogOut, 
   Bell, 
@@ -21,6 +22,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   const navigate = useNavigate();
   const [showNotifications, setShowNotifications] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const unreadCount = useUnreadNotificationCount();
 
   const handleSignOut = async () => {
     await signOut();
@@ -56,6 +58,11 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
               onClick={() => setShowNotifications(!showNotifications)}
             >
               <Bell className="h-5 w-5" />
+              {unreadCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-accent text-xs text-accent-foreground px-1">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
             </Button>
             <div className="flex items-center gap-3 pl-4 border-l">
               <div className="text-right">
@@ -77,6 +84,11 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
               onClick={() => setShowNotifications(!showNotifications)}
             >
               <Bell className="h-5 w-5" />
+              {unreadCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-accent text-xs text-accent-foreground px-1">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
             </Button>
             <Button
               variant="ghost"
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { FileCheck2, Loader2 } from 'lucide-react';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+import { PROJECT_TYPES } from '@/lib/request-form';
+import { downloadDecisionRecord, formatFileSize, type DecisionRecord } from '@/lib/decision-record';
+
+type Decision = Database['public']['Functions']['get_request_decision']['Returns'][number];
+
+interface DecisionRecordButtonProps {
+  requestId: string;
+  status: string;
+}
+
+const CONFIDENTIALITY_LABELS: Record<string, string> = {
+  public: 'Public',
+  internal: 'Internal',
+  restricted: 'Restricted / NDA',
+};
+
+const formatDate = (value: string) => format(new Date(value), 'PPp');
+
+// Only shows up once an admin has approved, rejected or otherwise closed the request
+export function DecisionRecordButton({ requestId, status }: DecisionRecordButtonProps) {
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const { getStatusConfig } = useRequestWorkflow();
+
+  const fetchDecision = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_request_decision', { _request_id: requestId });
+
+    if (error) {
+      console.error('Error fetching decision:', error);
+      return;
+    }
+    setDecision(data[0] ?? null);
+  }, [requestId]);
+
+  useEffect(() => {
+    fetchDecision();
+  }, [fetchDecision, status]);
+
+  const handleDownload = async () => {
+    if (!decision) return;
+
+    setGenerating(true);
+    // Internal notes are left out so admins and the requester file the same record
+    const [requestResult, attachmentsResult, commentsResult, historyResult] = await Promise.all([
+      supabase
+        .from('project_requests')
+        .select('*, submitter_name, submitter_email')
+        .eq('id', requestId)
+        .single(),
+      supabase
+        .from('request_attachments')
+        .select('file_name, file_size, created_at')
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('comments')
+        .select('comment, created_at, author_role, author_name')
+        .eq('request_id', requestId)
+        .eq('is_internal', false)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('request_status_history')
+        .select('from_status, to_status, changed_by, comment, created_at')
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    const fetchError =
+      requestResult.error || attachmentsResult.error || commentsResult.error || historyResult.error;
+    if (fetchError) {
+      toast.error('Failed to generate decision record: ' + fetchError.message);
+      setGenerating(false);
+      return;
+    }
+
+    const request = requestResult.data;
+    const submitter = request.submitter_name || 'Requester';
+    const actorName = (actorId: string | null) => {
+      if (!actorId) return 'System';
+      if (actorId === decision.decided_by) return decision.decided_by_name || 'Admin';
+      if (actorId === request.user_id) return submitter;
+      return 'Admin';
+    };
+
+    const record: DecisionRecord = {
+      reference: request.id,
+      title: request.title,
+      confidentialityLevel: request.confidentiality_level,
+      generatedAt: formatDate(new Date().toISOString()),
+      decision: {
+        status: getStatusConfig(decision.status).label,
+        decidedAt: formatDate(decision.decided_at),
+        decidedBy: decision.decided_by_name || 'Admin',
+        comment: decision.comment,
+      },
+      fields: [
+        { label: 'Submitted by', value: `${submitter}${request.submitter_email ? ` <${request.submitter_email}>` : ''}` },
+        { label: 'Submitted on', value: formatDate(request.submitted_at ?? request.created_at) },
+        {
+          label: 'Project types',
+          value: request.project_types.map(t => PROJECT_TYPES.find(p => p.id === t)?.label || t).join(', '),
+        },
+        { label: 'Confidentiality', value: CONFIDENTIALITY_LABELS[request.confidentiality_level] },
+        { label: 'Estimated duration', value: request.estimated_duration || '' },
+        { label: 'Strategic alignment', value: request.strategic_alignment || '' },
+        { label: 'Problem statement', value: request.problem_statement },
+        { label: 'Expected outcomes', value: request.expected_outcomes },
+        { label: 'Key dependencies', value: request.key_dependencies || '' },
+      ],
+      attachments: attachmentsResult.data.map((a) => ({
+        fileName: a.file_name,
+        size: formatFileSize(a.file_size),
+        uploadedAt: formatDate(a.created_at),
+      })),
+      timeline: historyResult.data.map((h) => ({
+        at: formatDate(h.created_at),
+        description: h.from_status
+          ? `${getStatusConfig(h.from_status).label} to ${getStatusConfig(h.to_status).label}`
+          : getStatusConfig(h.to_status).label,
+        actor: actorName(h.changed_by),
+        comment: h.comment,
+      })),
+      comments: commentsResult.data.map((c) => ({
+        author: c.author_name || (c.author_role === 'requester' ? submitter : 'Admin'),
+        at: formatDate(c.created_at),
+        text: c.comment,
+      })),
+    };
+
+    await downloadDecisionRecord(record, `decision-record-${request.id.slice(0, 8)}.pdf`);
+    setGenerating(false);
+  };
+
+  if (!decision) return null;
+
+  return (
+    <Button variant="outline" size="sm" className="gap-2" onClick={handleDownload} disabled={generating}>
+      {generating ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileCheck2 className="h-4 w-4" />}
+      Decision Record
+    </Button>
+  );
+}
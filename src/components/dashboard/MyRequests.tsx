@@ -6,7 +6,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { format } from 'date-fns';
-import { FileText, Clock, ArrowRight, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { FileText, Clock, ArrowRight, Loader2, FilePen, Pencil, Trash2 } from 'lucide-react';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
 
 interface ProjectRequest {
   id: string;
@@ -15,14 +17,13 @@ interface ProjectRequest {
   problem_statement: string;
   status: string;
   created_at: string;
+  updated_at: string;
 }
 
-const statusConfig: Record<string, { label: string; className: string }> = {
-  pending: { label: 'Pending', className: 'status-pending' },
-  in_review: { label: 'In Review', className: 'status-in-review' },
-  approved: { label: 'Approved', className: 'status-approved' },
-  rejected: { label: 'Rejected', className: 'status-rejected' },
-};
+interface MyRequestsProps {
+  onResumeDraft?: (id: string) => void;
+  onDraftDiscarded?: (id: string) => void;
+}
 
 const typeLabels: Record<string, string> = {
   'research': 'Research',
@@ -33,10 +34,12 @@ const typeLabels: Record<string, string> = {
   'other': 'Other',
 };
 
-export function MyRequests() {
+export function MyRequests({ onResumeDraft, onDraftDiscarded }: MyRequestsProps) {
   const { user } = useAuth();
   const [requests, setRequests] = useState<ProjectRequest[]>([]);
   const [loading, setLoading] = useState(true);
+  const [discardingId, setDiscardingId] = useState<string | null>(null);
+  const { getStatusConfig } = useRequestWorkflow();
 
   useEffect(() => {
     if (user) {
@@ -47,7 +50,7 @@ export function MyRequests() {
   const fetchRequests = async () => {
     const { data, error } = await supabase
       .from('project_requests')
-      .select('id, title, project_types, problem_statement, status, created_at')
+      .select('id, title, project_types, problem_statement, status, created_at, updated_at')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -58,6 +61,42 @@ export function MyRequests() {
     setLoading(false);
   };
 
+  const handleDiscardDraft = async (draft: ProjectRequest) => {
+    if (!confirm(`Discard the draft "${draft.title || 'Untitled draft'}"?`)) return;
+
+    setDiscardingId(draft.id);
+
+    // Attachment rows cascade with the request, the stored files don't
+    const { data: attachments } = await supabase
+      .from('request_attachments')
+      .select('file_path')
+      .eq('request_id', draft.id);
+
+    if (attachments && attachments.length > 0) {
+      await supabase.storage
+        .from('request-attachments')
+        .remove(attachments.map((a) => a.file_path));
+    }
+
+    const { error } = await supabase
+      .from('project_requests')
+      .delete()
+      .eq('id', draft.id);
+
+    if (error) {
+      toast.error('Failed to discard draft: ' + error.message);
+    } else {
+      toast.success('Draft discarded');
+      setRequests((prev) => prev.filter((r) => r.id !== draft.id));
+      onDraftDiscarded?.(draft.id);
+    }
+
+    setDiscardingId(null);
+  };
+
+  const drafts = requests.filter((r) => r.status === 'draft');
+  const submitted = requests.filter((r) => r.status !== 'draft');
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -84,8 +123,56 @@ export function MyRequests() {
 
   return (
     <div className="space-y-4">
-      {requests.map((request) => {
-        const status = statusConfig[request.status] || statusConfig.pending;
+      {/* Drafts */}
+      {drafts.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+            <FilePen className="h-4 w-4" />
+            Drafts
+          </h2>
+          {drafts.map((draft) => (
+            <Card key={draft.id} className="border-dashed">
+              <CardContent className="flex items-center justify-between gap-4 py-4">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{draft.title || 'Untitled draft'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Last saved {format(new Date(draft.updated_at), 'PPp')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button size="sm" className="gap-2" onClick={() => onResumeDraft?.(draft.id)}>
+                    <Pencil className="h-4 w-4" />
+                    Resume
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDiscardDraft(draft)}
+                    disabled={discardingId === draft.id}
+                    className="text-destructive hover:text-destructive"
+                    title="Discard draft"
+                  >
+                    {discardingId === draft.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {submitted.length > 0 && (
+            <h2 className="flex items-center gap-2 pt-2 text-sm font-semibold text-muted-foreground">
+              <FileText className="h-4 w-4" />
+              Submitted
+            </h2>
+          )}
+        </div>
+      )}
+
+      {submitted.map((request) => {
+        const status = getStatusConfig(request.status);
         return (
           <Card key={request.id} className="border-border/50 hover:shadow-md transition-shadow">
             <CardHeader className="pb-3">
@@ -1,10 +1,15 @@
 import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
+import { isStaffRole } from '@/lib/roles';
 import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Json } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { format } from 'date-fns';
-import { X, Bell, Check, Loader2 } from 'lucide-react';
+import { X, Bell, Check, Loader2, MessageSquare, RefreshCw, ArrowRight, UserPlus, AlarmClock, LucideIcon } from 'lucide-react';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
 
 interface Notification {
   id: string;
@@ -12,21 +17,65 @@ interface Notification {
   is_read: boolean;
   created_at: string;
   request_id: string;
+  type: Enums<'notification_type'>;
+  metadata: Json;
 }
 
+const typeConfig: Record<Enums<'notification_type'>, { title: string; icon: LucideIcon; className: string }> = {
+  comment: { title: 'New comment', icon: MessageSquare, className: 'bg-accent/10 text-accent' },
+  status_change: { title: 'Status updated', icon: RefreshCw, className: 'bg-info/10 text-info' },
+  assignment: { title: 'Assigned to you', icon: UserPlus, className: 'bg-warning/10 text-warning' },
+  sla_breach: { title: 'Response overdue', icon: AlarmClock, className: 'bg-destructive/10 text-destructive' },
+};
+
+const getStatusChange = (metadata: Json) => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+  const { from_status, to_status } = metadata;
+  if (typeof from_status !== 'string' || typeof to_status !== 'string') return null;
+  return { from: from_status, to: to_status };
+};
+
 interface NotificationsPanelProps {
   onClose: () => void;
 }
 
 export function NotificationsPanel({ onClose }: NotificationsPanelProps) {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const navigate = useNavigate();
+  const { getStatusConfig } = useRequestWorkflow();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user) {
-      fetchNotifications();
-    }
+    if (!user) return;
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const incoming = payload.new as Notification;
+          setNotifications(prev =>
+            prev.some(n => n.id === incoming.id) ? prev : [incoming, ...prev]
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const updated = payload.new as Notification;
+          setNotifications(prev => prev.map(n => (n.id === updated.id ? { ...n, ...updated } : n)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [user]);
 
   const fetchNotifications = async () => {
@@ -50,12 +99,25 @@ export function NotificationsPanel({ onClose }: NotificationsPanelProps) {
       .eq('id', id);
 
     if (!error) {
-      setNotifications(notifications.map(n => 
+      setNotifications(prev => prev.map(n =>
         n.id === id ? { ...n, is_read: true } : n
       ));
     }
   };
 
+  const openNotification = (notification: Notification) => {
+    if (!notification.is_read) {
+      markAsRead(notification.id);
+    }
+    onClose();
+    // Staff review requests from the dashboard dialog rather than the requester page
+    navigate(
+      isStaffRole(role)
+        ? `/admin/dashboard?request=${notification.request_id}`
+        : `/request/${notification.request_id}`
+    );
+  };
+
   const markAllAsRead = async () => {
     const unreadIds = notifications.filter(n => !n.is_read).map(n => n.id);
     if (unreadIds.length === 0) return;
@@ -66,7 +128,7 @@ export function NotificationsPanel({ onClose }: NotificationsPanelProps) {
       .in('id', unreadIds);
 
     if (!error) {
-      setNotifications(notifications.map(n => ({ ...n, is_read: true })));
+      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })));
     }
   };
 
@@ -111,27 +173,49 @@ export function NotificationsPanel({ onClose }: NotificationsPanelProps) {
           </div>
         ) : (
           <div className="divide-y">
-            {notifications.map((notification) => (
-              <div
-                key={notification.id}
-                className={`p-4 hover:bg-muted/50 transition-colors cursor-pointer ${
-                  !notification.is_read ? 'bg-accent/5' : ''
-                }`}
-                onClick={() => markAsRead(notification.id)}
-              >
-                <div className="flex gap-3">
-                  <div className={`mt-1 h-2 w-2 rounded-full shrink-0 ${
-                    notification.is_read ? 'bg-transparent' : 'bg-accent'
-                  }`} />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm">{notification.message}</p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {format(new Date(notification.created_at), 'PPp')}
-                    </p>
+            {notifications.map((notification) => {
+              const config = typeConfig[notification.type] || typeConfig.comment;
+              const Icon = config.icon;
+              const statusChange = notification.type === 'status_change'
+                ? getStatusChange(notification.metadata)
+                : null;
+              return (
+                <div
+                  key={notification.id}
+                  className={`p-4 hover:bg-muted/50 transition-colors cursor-pointer ${
+                    !notification.is_read ? 'bg-accent/5' : ''
+                  }`}
+                  onClick={() => openNotification(notification)}
+                >
+                  <div className="flex gap-3">
+                    <div className={`mt-1 h-2 w-2 rounded-full shrink-0 ${
+                      notification.is_read ? 'bg-transparent' : 'bg-accent'
+                    }`} />
+                    <div className={`flex h-8 w-8 items-center justify-center rounded-full shrink-0 ${config.className}`}>
+                      <Icon className="h-4 w-4" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium">{config.title}</p>
+                      <p className="text-sm text-muted-foreground">{notification.message}</p>
+                      {statusChange && (
+                        <div className="flex items-center gap-2 mt-2">
+                          <Badge className={getStatusConfig(statusChange.from).className}>
+                            {getStatusConfig(statusChange.from).label}
+                          </Badge>
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          <Badge className={getStatusConfig(statusChange.to).className}>
+                            {getStatusConfig(statusChange.to).label}
+                          </Badge>
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {format(new Date(notification.created_at), 'PPp')}
+                      </p>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </ScrollArea>
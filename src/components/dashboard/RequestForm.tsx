@@ -1,32 +1,15 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { useAuth } from '@/lib/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Checkbox } from '@/components/ui/checkbox';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { Loader2, Send, FileText, Paperclip, X, File } from 'lucide-react';
-
-const PROJECT_TYPES = [
-  { id: 'research', label: 'Research' },
-  { id: 'threat-intelligence', label: 'Threat Intelligence' },
-  { id: 'prototype', label: 'Prototype / Tool' },
-  { id: 'advisory', label: 'Advisory' },
-  { id: 'training', label: 'Training' },
-  { id: 'other', label: 'Other' },
-];
-
-const DURATION_OPTIONS = [
-  '1-2 weeks',
-  '1 month',
-  '2-3 months',
-  '3-6 months',
-  '6+ months',
-];
+import { format } from 'date-fns';
+import { Loader2, Send, FileText, Paperclip, Check, AlertCircle } from 'lucide-react';
+import { EMPTY_FORM, fromRequestRow, toRequestRow, type RequestFormData } from '@/lib/request-form';
+import { AttachmentList } from './AttachmentList';
+import { RequestFormFields } from './RequestFormFields';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 const ALLOWED_TYPES = [
@@ -39,40 +22,146 @@ const ALLOWED_TYPES = [
   'text/plain', 'text/csv'
 ];
 
-const formatFileSize = (bytes: number) => {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-};
+const AUTOSAVE_DELAY = 1500;
+
+const isBlank = (data: RequestFormData) =>
+  !data.title.trim() &&
+  data.projectTypes.length === 0 &&
+  !data.strategicAlignment.trim() &&
+  !data.problemStatement.trim() &&
+  !data.expectedOutcomes.trim() &&
+  !data.estimatedDuration &&
+  !data.keyDependencies.trim();
+
+interface RequestFormProps {
+  /** Draft to resume; otherwise one is created on the first autosave */
+  draftId?: string | null;
+  onDraftCreated?: (id: string) => void;
+  onSubmitted?: () => void;
+}
 
-export function RequestForm() {
+export function RequestForm({ draftId = null, onDraftCreated, onSubmitted }: RequestFormProps) {
   const { user } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [pendingFiles, setPendingFiles] = useState<{ file: File; id: string }[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [loadingDraft, setLoadingDraft] = useState(!!draftId);
+  const [currentDraftId, setCurrentDraftId] = useState<string | null>(draftId);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [attachmentsRefreshKey, setAttachmentsRefreshKey] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [formData, setFormData] = useState({
-    title: '',
-    projectTypes: [] as string[],
-    strategicAlignment: '',
-    problemStatement: '',
-    expectedOutcomes: '',
-    estimatedDuration: '',
-    keyDependencies: '',
-    confidentialityLevel: 'internal' as 'public' | 'internal' | 'restricted',
-  });
-
-  const handleTypeChange = (typeId: string, checked: boolean) => {
-    setFormData(prev => ({
-      ...prev,
-      projectTypes: checked
-        ? [...prev.projectTypes, typeId]
-        : prev.projectTypes.filter(t => t !== typeId),
-    }));
+  const [formData, setFormData] = useState<RequestFormData>(EMPTY_FORM);
+
+  // The debounced save and the unmount flush run outside the render that
+  // scheduled them, so they read everything through refs
+  const formDataRef = useRef(formData);
+  const draftIdRef = useRef<string | null>(draftId);
+  const dirtyRef = useRef(false);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const saveQueueRef = useRef<Promise<string | null>>(Promise.resolve(draftId));
+
+  // Only the draft the form was opened with is loaded; the id it gets once the
+  // first autosave creates a draft must not reload the form
+  useEffect(() => {
+    const id = draftIdRef.current;
+    if (!id) return;
+
+    const loadDraft = async () => {
+      const { data, error } = await supabase
+        .from('project_requests')
+        .select('*')
+        .eq('id', id)
+        .eq('status', 'draft')
+        .maybeSingle();
+
+      if (error || !data) {
+        // Submitted or discarded elsewhere; start a fresh request instead
+        draftIdRef.current = null;
+        setCurrentDraftId(null);
+      } else {
+        setFormData(fromRequestRow(data));
+        setLastSavedAt(new Date(data.updated_at));
+        setSaveState('saved');
+      }
+      setLoadingDraft(false);
+    };
+
+    loadDraft();
+  }, []);
+
+  const updateForm = (changes: Partial<RequestFormData>) => {
+    dirtyRef.current = true;
+    setFormData(prev => ({ ...prev, ...changes }));
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Saves are queued so a slow insert can't race the next update into creating
+  // a second draft. Resolves to the draft id, or null if nothing could be saved.
+  const saveDraft = useCallback((force = false) => {
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = undefined;
+
+      const data = formDataRef.current;
+      if (!user) return null;
+      if (!force && (!dirtyRef.current || (!draftIdRef.current && isBlank(data)))) {
+        return draftIdRef.current;
+      }
+
+      dirtyRef.current = false;
+      setSaveState('saving');
+
+      const { data: saved, error } = draftIdRef.current
+        ? await supabase
+            .from('project_requests')
+            .update(toRequestRow(data))
+            .eq('id', draftIdRef.current)
+            .select('id')
+            .single()
+        : await supabase
+            .from('project_requests')
+            .insert({ ...toRequestRow(data), user_id: user.id, status: 'draft' })
+            .select('id')
+            .single();
+
+      if (error) {
+        dirtyRef.current = true;
+        setSaveState('error');
+        return null;
+      }
+
+      if (!draftIdRef.current) {
+        draftIdRef.current = saved.id;
+        setCurrentDraftId(saved.id);
+        onDraftCreated?.(saved.id);
+      }
+      setSaveState('saved');
+      setLastSavedAt(new Date());
+      return saved.id;
+    });
+    return saveQueueRef.current;
+  }, [user, onDraftCreated]);
+
+  useEffect(() => {
+    return () => {
+      // Switching tabs unmounts the form; don't drop the last few keystrokes
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+        saveDraft();
+      }
+    };
+  }, [saveDraft]);
+
+  useEffect(() => {
+    formDataRef.current = formData;
+    if (!dirtyRef.current) return;
+
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => saveDraft(), AUTOSAVE_DELAY);
+  }, [formData, saveDraft]);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    const validFiles: { file: File; id: string }[] = [];
+    const validFiles: File[] = [];
     for (const file of files) {
       if (!ALLOWED_TYPES.includes(file.type)) {
         toast.error(`${file.name}: File type not allowed`);
@@ -82,20 +171,29 @@ export function RequestForm() {
         toast.error(`${file.name}: File size exceeds 10MB limit`);
         continue;
       }
-      validFiles.push({ file, id: crypto.randomUUID() });
+      validFiles.push(file);
     }
-    setPendingFiles(prev => [...prev, ...validFiles]);
     if (fileInputRef.current) fileInputRef.current.value = '';
-  };
+    if (validFiles.length === 0) return;
+
+    setIsUploading(true);
 
-  const removePendingFile = (id: string) => {
-    setPendingFiles(prev => prev.filter(f => f.id !== id));
+    // Attachments belong to a request row, so make sure the draft exists first
+    const requestId = await saveDraft(true);
+    if (requestId) {
+      await uploadFiles(requestId, validFiles);
+      setAttachmentsRefreshKey(k => k + 1);
+    } else {
+      toast.error('Failed to save draft before uploading attachments');
+    }
+
+    setIsUploading(false);
   };
 
-  const uploadFiles = async (requestId: string) => {
-    if (!user || pendingFiles.length === 0) return;
+  const uploadFiles = async (requestId: string, files: File[]) => {
+    if (!user) return;
 
-    for (const { file } of pendingFiles) {
+    for (const file of files) {
       const fileExt = file.name.split('.').pop();
       const fileName = `${crypto.randomUUID()}.${fileExt}`;
       const filePath = `${user.id}/${requestId}/${fileName}`;
@@ -142,17 +240,18 @@ export function RequestForm() {
 
     setIsSubmitting(true);
 
-    const { data, error } = await supabase.from('project_requests').insert({
-      user_id: user.id,
-      title: formData.title,
-      project_types: formData.projectTypes,
-      strategic_alignment: formData.strategicAlignment || null,
-      problem_statement: formData.problemStatement,
-      expected_outcomes: formData.expectedOutcomes,
-      estimated_duration: formData.estimatedDuration || null,
-      key_dependencies: formData.keyDependencies || null,
-      confidentiality_level: formData.confidentialityLevel,
-    }).select('id').single();
+    // Flush the latest edits into the draft, then move it into the review queue
+    const requestId = await saveDraft(true);
+    if (!requestId) {
+      toast.error('Failed to submit request: the draft could not be saved');
+      setIsSubmitting(false);
+      return;
+    }
+
+    const { error } = await supabase.rpc('transition_request_status', {
+      _request_id: requestId,
+      _to_status: 'pending',
+    });
 
     if (error) {
       toast.error('Failed to submit request: ' + error.message);
@@ -160,26 +259,25 @@ export function RequestForm() {
       return;
     }
 
-    // Upload attachments after request is created
-    if (pendingFiles.length > 0) {
-      await uploadFiles(data.id);
-    }
-
     toast.success('Project request submitted successfully!');
-    setFormData({
-      title: '',
-      projectTypes: [],
-      strategicAlignment: '',
-      problemStatement: '',
-      expectedOutcomes: '',
-      estimatedDuration: '',
-      keyDependencies: '',
-      confidentialityLevel: 'internal',
-    });
-    setPendingFiles([]);
+    dirtyRef.current = false;
+    draftIdRef.current = null;
+    setCurrentDraftId(null);
+    setFormData(EMPTY_FORM);
+    setSaveState('idle');
+    setLastSavedAt(null);
     setIsSubmitting(false);
+    onSubmitted?.();
   };
 
+  if (loadingDraft) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
   return (
     <Card className="border-border/50">
       <CardHeader>
@@ -190,140 +288,16 @@ export function RequestForm() {
           <div>
             <CardTitle>New Project Request</CardTitle>
             <CardDescription>
-              Fill out the form below to submit a new project proposal
+              {currentDraftId
+                ? 'Your progress is saved as a draft automatically until you submit it'
+                : 'Fill out the form below to submit a new project proposal'}
             </CardDescription>
           </div>
         </div>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
-          {/* Project Title */}
-          <div className="space-y-2">
-            <Label htmlFor="title">Project Title *</Label>
-            <Input
-              id="title"
-              placeholder="Enter a descriptive title for your project"
-              value={formData.title}
-              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-              required
-            />
-          </div>
-
-          {/* Project Types */}
-          <div className="space-y-3">
-            <Label>Project Type * (Select all that apply)</Label>
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-              {PROJECT_TYPES.map((type) => (
-                <div
-                  key={type.id}
-                  className="flex items-center space-x-2 rounded-lg border p-3 hover:bg-muted/50 transition-colors"
-                >
-                  <Checkbox
-                    id={type.id}
-                    checked={formData.projectTypes.includes(type.id)}
-                    onCheckedChange={(checked) => handleTypeChange(type.id, checked as boolean)}
-                  />
-                  <Label htmlFor={type.id} className="cursor-pointer font-normal">
-                    {type.label}
-                  </Label>
-                </div>
-              ))}
-            </div>
-          </div>
-
-          {/* Strategic Alignment */}
-          <div className="space-y-2">
-            <Label htmlFor="strategic-alignment">Strategic Alignment</Label>
-            <Input
-              id="strategic-alignment"
-              placeholder="How does this project align with organizational goals?"
-              value={formData.strategicAlignment}
-              onChange={(e) => setFormData({ ...formData, strategicAlignment: e.target.value })}
-            />
-          </div>
-
-          {/* Problem Statement */}
-          <div className="space-y-2">
-            <Label htmlFor="problem-statement">Problem Statement *</Label>
-            <Textarea
-              id="problem-statement"
-              placeholder="Describe the problem this project aims to solve..."
-              value={formData.problemStatement}
-              onChange={(e) => setFormData({ ...formData, problemStatement: e.target.value })}
-              rows={4}
-              required
-            />
-          </div>
-
-          {/* Expected Outcomes */}
-          <div className="space-y-2">
-            <Label htmlFor="expected-outcomes">Expected Outcomes *</Label>
-            <Textarea
-              id="expected-outcomes"
-              placeholder="What are the expected deliverables and outcomes?"
-              value={formData.expectedOutcomes}
-              onChange={(e) => setFormData({ ...formData, expectedOutcomes: e.target.value })}
-              rows={4}
-              required
-            />
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Estimated Duration */}
-            <div className="space-y-2">
-              <Label htmlFor="duration">Estimated Duration</Label>
-              <Select
-                value={formData.estimatedDuration}
-                onValueChange={(value) => setFormData({ ...formData, estimatedDuration: value })}
-              >
-                <SelectTrigger id="duration">
-                  <SelectValue placeholder="Select duration" />
-                </SelectTrigger>
-                <SelectContent>
-                  {DURATION_OPTIONS.map((option) => (
-                    <SelectItem key={option} value={option}>
-                      {option}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Confidentiality Level */}
-            <div className="space-y-2">
-              <Label htmlFor="confidentiality">Confidentiality Level *</Label>
-              <Select
-                value={formData.confidentialityLevel}
-                onValueChange={(value) => 
-                  setFormData({ 
-                    ...formData, 
-                    confidentialityLevel: value as 'public' | 'internal' | 'restricted' 
-                  })
-                }
-              >
-                <SelectTrigger id="confidentiality">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="public">Public</SelectItem>
-                  <SelectItem value="internal">Internal</SelectItem>
-                  <SelectItem value="restricted">Restricted / NDA</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          {/* Key Dependencies */}
-          <div className="space-y-2">
-            <Label htmlFor="dependencies">Key Dependencies</Label>
-            <Textarea
-              id="dependencies"
-              placeholder="List any dependencies, resources, or support needed..."
-              value={formData.keyDependencies}
-              onChange={(e) => setFormData({ ...formData, keyDependencies: e.target.value })}
-              rows={3}
-            />
-          </div>
+          <RequestFormFields value={formData} onChange={updateForm} />
 
           {/* Attachments */}
           <div className="space-y-3">
@@ -336,64 +310,71 @@ export function RequestForm() {
                 onChange={handleFileSelect}
                 className="hidden"
                 accept={ALLOWED_TYPES.join(',')}
-                disabled={isSubmitting}
+                disabled={isSubmitting || isUploading}
               />
               <Button
                 type="button"
                 variant="outline"
                 onClick={() => fileInputRef.current?.click()}
-                disabled={isSubmitting}
+                disabled={isSubmitting || isUploading}
                 className="gap-2"
               >
-                <Paperclip className="h-4 w-4" />
-                Add Files
+                {isUploading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Paperclip className="h-4 w-4" />
+                )}
+                {isUploading ? 'Uploading...' : 'Add Files'}
               </Button>
               <span className="text-xs text-muted-foreground">
                 Max 10MB per file. Images, PDFs, Office docs, text files.
               </span>
             </div>
 
-            {pendingFiles.length > 0 && (
-              <div className="space-y-2">
-                {pendingFiles.map(({ file, id }) => (
-                  <div
-                    key={id}
-                    className="flex items-center gap-3 p-3 rounded-lg bg-muted/50 border"
-                  >
-                    <File className="h-4 w-4 text-muted-foreground shrink-0" />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">{file.name}</p>
-                      <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
-                    </div>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => removePendingFile(id)}
-                      disabled={isSubmitting}
-                      className="shrink-0"
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
+            {currentDraftId && (
+              <AttachmentList
+                requestId={currentDraftId}
+                canDelete
+                refreshKey={attachmentsRefreshKey}
+              />
             )}
           </div>
 
-          <Button type="submit" className="w-full md:w-auto" disabled={isSubmitting}>
-            {isSubmitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Submitting...
-              </>
-            ) : (
-              <>
-                <Send className="mr-2 h-4 w-4" />
-                Submit Request
-              </>
+          <div className="flex flex-col-reverse gap-3 md:flex-row md:items-center">
+            <Button type="submit" className="w-full md:w-auto" disabled={isSubmitting || isUploading}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Submit Request
+                </>
+              )}
+            </Button>
+
+            {/* Autosave status */}
+            {saveState === 'saving' && (
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                Saving draft...
+              </span>
+            )}
+            {saveState === 'saved' && lastSavedAt && (
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Check className="h-3.5 w-3.5" />
+                Draft saved at {format(lastSavedAt, 'p')}
+              </span>
             )}
-          </Button>
+            {saveState === 'error' && (
+              <span className="flex items-center gap-1.5 text-xs text-destructive">
+                <AlertCircle className="h-3.5 w-3.5" />
+                Couldn't save draft. We'll retry on your next change.
+              </span>
+            )}
+          </div>
         </form>
       </CardContent>
     </Card>
@@ -0,0 +1,151 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DURATION_OPTIONS, PROJECT_TYPES, type RequestFormData } from '@/lib/request-form';
+
+interface RequestFormFieldsProps {
+  value: RequestFormData;
+  onChange: (changes: Partial<RequestFormData>) => void;
+}
+
+/** The request fields shared by the new request form and the edit mode on the request page */
+export function RequestFormFields({ value: formData, onChange }: RequestFormFieldsProps) {
+  const handleTypeChange = (typeId: string, checked: boolean) => {
+    onChange({
+      projectTypes: checked
+        ? [...formData.projectTypes, typeId]
+        : formData.projectTypes.filter(t => t !== typeId),
+    });
+  };
+
+  return (
+    <>
+      {/* Project Title */}
+      <div className="space-y-2">
+        <Label htmlFor="title">Project Title *</Label>
+        <Input
+          id="title"
+          placeholder="Enter a descriptive title for your project"
+          value={formData.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+          required
+        />
+      </div>
+
+      {/* Project Types */}
+      <div className="space-y-3">
+        <Label>Project Type * (Select all that apply)</Label>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {PROJECT_TYPES.map((type) => (
+            <div
+              key={type.id}
+              className="flex items-center space-x-2 rounded-lg border p-3 hover:bg-muted/50 transition-colors"
+            >
+              <Checkbox
+                id={type.id}
+                checked={formData.projectTypes.includes(type.id)}
+                onCheckedChange={(checked) => handleTypeChange(type.id, checked as boolean)}
+              />
+              <Label htmlFor={type.id} className="cursor-pointer font-normal">
+                {type.label}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Strategic Alignment */}
+      <div className="space-y-2">
+        <Label htmlFor="strategic-alignment">Strategic Alignment</Label>
+        <Input
+          id="strategic-alignment"
+          placeholder="How does this project align with organizational goals?"
+          value={formData.strategicAlignment}
+          onChange={(e) => onChange({ strategicAlignment: e.target.value })}
+        />
+      </div>
+
+      {/* Problem Statement */}
+      <div className="space-y-2">
+        <Label htmlFor="problem-statement">Problem Statement *</Label>
+        <Textarea
+          id="problem-statement"
+          placeholder="Describe the problem this project aims to solve..."
+          value={formData.problemStatement}
+          onChange={(e) => onChange({ problemStatement: e.target.value })}
+          rows={4}
+          required
+        />
+      </div>
+
+      {/* Expected Outcomes */}
+      <div className="space-y-2">
+        <Label htmlFor="expected-outcomes">Expected Outcomes *</Label>
+        <Textarea
+          id="expected-outcomes"
+          placeholder="What are the expected deliverables and outcomes?"
+          value={formData.expectedOutcomes}
+          onChange={(e) => onChange({ expectedOutcomes: e.target.value })}
+          rows={4}
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Estimated Duration */}
+        <div className="space-y-2">
+          <Label htmlFor="duration">Estimated Duration</Label>
+          <Select
+            value={formData.estimatedDuration}
+            onValueChange={(value) => onChange({ estimatedDuration: value })}
+          >
+            <SelectTrigger id="duration">
+              <SelectValue placeholder="Select duration" />
+            </SelectTrigger>
+            <SelectContent>
+              {DURATION_OPTIONS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Confidentiality Level */}
+        <div className="space-y-2">
+          <Label htmlFor="confidentiality">Confidentiality Level *</Label>
+          <Select
+            value={formData.confidentialityLevel}
+            onValueChange={(value) =>
+              onChange({ confidentialityLevel: value as RequestFormData['confidentialityLevel'] })
+            }
+          >
+            <SelectTrigger id="confidentiality">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="public">Public</SelectItem>
+              <SelectItem value="internal">Internal</SelectItem>
+              <SelectItem value="restricted">Restricted / NDA</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Key Dependencies */}
+      <div className="space-y-2">
+        <Label htmlFor="dependencies">Key Dependencies</Label>
+        <Textarea
+          id="dependencies"
+          placeholder="List any dependencies, resources, or support needed..."
+          value={formData.keyDependencies}
+          onChange={(e) => onChange({ keyDependencies: e.target.value })}
+          rows={3}
+        />
+      </div>
+    </>
+  );
+}
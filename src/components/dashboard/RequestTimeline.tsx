@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { ArrowRight, FilePlus, Loader2, MessageSquare, Paperclip, Pencil, RefreshCw } from 'lucide-react';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+
+type TimelineEvent =
+  | {
+      kind: 'status';
+      id: string;
+      created_at: string;
+      actor_id: string | null;
+      from_status: string | null;
+      to_status: string;
+    }
+  | { kind: 'comment'; id: string; created_at: string; actor_id: string; comment: string; internal: boolean }
+  | { kind: 'attachment'; id: string; created_at: string; actor_id: string; file_name: string }
+  | { kind: 'revision'; id: string; created_at: string; actor_id: string | null; revision_number: number };
+
+interface RequestTimelineProps {
+  requestId: string;
+  refreshKey?: number;
+}
+
+export function RequestTimeline({ requestId, refreshKey = 0 }: RequestTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const { getStatusConfig } = useRequestWorkflow();
+
+  const fetchTimeline = useCallback(async () => {
+    const [historyResult, commentsResult, attachmentsResult, revisionsResult] = await Promise.all([
+      supabase
+        .from('request_status_history')
+        .select('id, created_at, changed_by, from_status, to_status')
+        .eq('request_id', requestId),
+      supabase
+        .from('comments')
+        .select('id, created_at, author_id, comment, is_internal')
+        .eq('request_id', requestId),
+      supabase
+        .from('request_attachments')
+        .select('id, created_at, user_id, file_name')
+        .eq('request_id', requestId),
+      // Revision 1 is the submission itself, which the status history already covers
+      supabase
+        .from('request_revisions')
+        .select('id, created_at, edited_by, revision_number')
+        .eq('request_id', requestId)
+        .gt('revision_number', 1),
+    ]);
+
+    const fetchError =
+      historyResult.error || commentsResult.error || attachmentsResult.error || revisionsResult.error;
+    if (fetchError) {
+      console.error('Error fetching timeline:', fetchError);
+      setLoading(false);
+      return;
+    }
+
+    const merged: TimelineEvent[] = [
+      ...historyResult.data.map((h) => ({
+        kind: 'status' as const,
+        id: h.id,
+        created_at: h.created_at,
+        actor_id: h.changed_by,
+        from_status: h.from_status,
+        to_status: h.to_status,
+      })),
+      ...commentsResult.data.map((c) => ({
+        kind: 'comment' as const,
+        id: c.id,
+        created_at: c.created_at,
+        actor_id: c.author_id,
+        comment: c.comment,
+        internal: c.is_internal,
+      })),
+      ...attachmentsResult.data.map((a) => ({
+        kind: 'attachment' as const,
+        id: a.id,
+        created_at: a.created_at,
+        actor_id: a.user_id,
+        file_name: a.file_name,
+      })),
+      ...revisionsResult.data.map((r) => ({
+        kind: 'revision' as const,
+        id: r.id,
+        created_at: r.created_at,
+        actor_id: r.edited_by,
+        revision_number: r.revision_number,
+      })),
+    ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+    // One lookup for every actor; requesters can only read their own profile,
+    // so anyone else falls back to "Admin" below
+    const actorIds = [...new Set(merged.map((e) => e.actor_id).filter(Boolean))] as string[];
+    if (actorIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', actorIds);
+      setActorNames(Object.fromEntries((profiles || []).map((p) => [p.user_id, p.full_name])));
+    }
+
+    setEvents(merged);
+    setLoading(false);
+  }, [requestId]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline, refreshKey]);
+
+  const actorName = (actorId: string | null) =>
+    actorId ? actorNames[actorId] || 'Admin' : 'System';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground text-sm">
+        No activity yet
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-6">
+      {events.map((event) => {
+        const Icon =
+          event.kind === 'comment'
+            ? MessageSquare
+            : event.kind === 'attachment'
+              ? Paperclip
+              : event.kind === 'revision'
+                ? Pencil
+                : event.from_status && event.from_status !== 'draft'
+                  ? RefreshCw
+                  : FilePlus;
+
+        return (
+          <li key={`${event.kind}-${event.id}`} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted ring-4 ring-background">
+              <Icon className="h-3 w-3 text-muted-foreground" />
+            </span>
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+              <span className="font-medium">{actorName(event.actor_id)}</span>
+              {event.kind === 'status' && !event.from_status && (
+                <span className="text-muted-foreground">
+                  {event.to_status === 'draft' ? 'started a draft' : 'submitted the request'}
+                </span>
+              )}
+              {event.kind === 'status' && event.from_status === 'draft' && (
+                <span className="text-muted-foreground">submitted the request</span>
+              )}
+              {event.kind === 'status' && event.from_status && event.from_status !== 'draft' && (
+                <>
+                  <span className="text-muted-foreground">changed status</span>
+                  <Badge className={getStatusConfig(event.from_status).className}>
+                    {getStatusConfig(event.from_status).label}
+                  </Badge>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <Badge className={getStatusConfig(event.to_status).className}>
+                    {getStatusConfig(event.to_status).label}
+                  </Badge>
+                </>
+              )}
+              {event.kind === 'comment' && (
+                <span className="text-muted-foreground">
+                  {event.internal ? 'added an internal note' : 'commented'}
+                </span>
+              )}
+              {event.kind === 'revision' && (
+                <span className="text-muted-foreground">
+                  edited the request <span className="text-xs">(revision {event.revision_number})</span>
+                </span>
+              )}
+              {event.kind === 'attachment' && (
+                <span className="text-muted-foreground">
+                  attached <span className="font-medium text-foreground">{event.file_name}</span>
+                </span>
+              )}
+            </div>
+            <time className="block text-xs text-muted-foreground mt-0.5">
+              {format(new Date(event.created_at), 'PPp')}
+            </time>
+            {event.kind === 'comment' && (
+              <p className={`mt-2 rounded-lg p-3 text-sm whitespace-pre-wrap ${
+                event.internal ? 'bg-warning/5 border border-warning/20' : 'bg-muted/50'
+              }`}>
+                {event.comment}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
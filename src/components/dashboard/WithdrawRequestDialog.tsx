@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+
+interface WithdrawRequestDialogProps {
+  open: boolean;
+  submitting: boolean;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+}
+
+export function WithdrawRequestDialog({ open, submitting, onConfirm, onCancel }: WithdrawRequestDialogProps) {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setReason('');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Withdraw request</DialogTitle>
+          <DialogDescription>
+            The request will be closed and kept on record. This can't be undone, but you can always submit a new request.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="withdraw-reason">Reason (optional)</Label>
+          <Textarea
+            id="withdraw-reason"
+            placeholder="Let the reviewers know why you're withdrawing..."
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={() => onConfirm(reason.trim())} disabled={submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Withdraw Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export interface AdminUser {
+  user_id: string;
+  full_name: string;
+  email: string;
+  role: Database['public']['Enums']['app_role'];
+}
+
+const fetchAdmins = async (): Promise<AdminUser[]> => {
+  const { data: roles, error: rolesError } = await supabase
+    .from('user_roles')
+    .select('user_id, role')
+    .in('role', ['admin', 'reviewer']);
+
+  if (rolesError) throw rolesError;
+  if (roles.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, full_name, email')
+    .in('user_id', roles.map(r => r.user_id))
+    .order('full_name', { ascending: true });
+
+  if (profilesError) throw profilesError;
+  return profiles.flatMap(p => {
+    const role = roles.find(r => r.user_id === p.user_id)?.role;
+    return role ? [{ ...p, role }] : [];
+  });
+};
+
+// Admins and reviewers, who can be assigned to requests; only readable by other staff
+export function useAdmins() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['admins'],
+    queryFn: fetchAdmins,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const admins = data ?? [];
+
+  const getAdminName = (userId: string | null) =>
+    userId ? admins.find(a => a.user_id === userId)?.full_name ?? 'Unknown admin' : null;
+
+  return { admins, loading: isLoading, getAdminName };
+}
@@ -0,0 +1,124 @@
+import type { ReactNode } from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { useRequestExport, type ExportRequest } from "@/hooks/use-request-export";
+import { downloadRows, type ExportColumn } from "@/lib/request-export";
+
+const clearance = vi.hoisted(() => ({ cleared: false }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        eq: (_column: string, userId: string) => ({
+          maybeSingle: async () => ({ data: clearance.cleared ? { user_id: userId } : null, error: null }),
+        }),
+      }),
+    }),
+  },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  useAuth: () => ({ user: { id: "admin-1" } }),
+}));
+
+vi.mock("@/hooks/use-request-workflow", () => ({
+  useRequestWorkflow: () => ({ getStatusConfig: (key: string) => ({ label: key }) }),
+}));
+
+vi.mock("@/hooks/use-admins", () => ({
+  useAdmins: () => ({ getAdminName: () => "Unassigned" }),
+}));
+
+vi.mock("@/lib/request-export", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/request-export")>()),
+  downloadRows: vi.fn(),
+}));
+
+const MASKED_HEADERS = [
+  "Title",
+  "Strategic Alignment",
+  "Problem Statement",
+  "Expected Outcomes",
+  "Key Dependencies",
+];
+
+const makeRequest = (confidentiality_level: ExportRequest["confidentiality_level"]): ExportRequest => ({
+  id: `req-${confidentiality_level}`,
+  title: "Secret project",
+  status: "pending",
+  priority: "normal",
+  project_types: [],
+  confidentiality_level,
+  estimated_duration: "3 months",
+  strategic_alignment: "Alignment",
+  problem_statement: "Problem",
+  expected_outcomes: "Outcomes",
+  key_dependencies: "Dependencies",
+  assigned_to: null,
+  created_at: "2026-03-01T09:00:00Z",
+  submitted_at: "2026-03-01T09:00:00Z",
+  first_responded_at: null,
+  submitter_name: "Jane Smith",
+  submitter_email: "jane@example.com",
+  comment_count: 2,
+  last_status_change_at: null,
+  decided_at: null,
+});
+
+// Renders the hook, waits for the clearance lookup and exports the given requests,
+// returning each exported row keyed by column header
+const exportRows = async (requests: ExportRequest[]) => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  const { result } = renderHook(() => useRequestExport(), { wrapper });
+
+  await waitFor(() => {
+    expect(queryClient.getQueryState(["export-clearance", "admin-1"])?.status).toBe("success");
+    expect(result.current.cleared).toBe(clearance.cleared);
+  });
+  await result.current.exportRequests(requests, "csv");
+
+  const [rows, columns] = vi.mocked(downloadRows).mock.calls[0] as [
+    ExportRequest[],
+    ExportColumn<ExportRequest>[],
+    ...unknown[],
+  ];
+  return rows.map(row => Object.fromEntries(columns.map(c => [c.header, c.value(row)])));
+};
+
+describe("useRequestExport", () => {
+  beforeEach(() => {
+    vi.mocked(downloadRows).mockClear();
+    clearance.cleared = false;
+  });
+
+  it("masks the content of restricted requests for admins without clearance", async () => {
+    const [row] = await exportRows([makeRequest("restricted")]);
+
+    MASKED_HEADERS.forEach(header => expect(row[header]).toBe("[Restricted]"));
+    expect(row.Reference).toBe("req-restricted");
+    expect(row["Submitted By"]).toBe("Jane Smith");
+    expect(row["Estimated Duration"]).toBe("3 months");
+  });
+
+  it("leaves requests below restricted untouched", async () => {
+    const rows = await exportRows([makeRequest("public"), makeRequest("internal")]);
+
+    rows.forEach(row => {
+      expect(row.Title).toBe("Secret project");
+      expect(row["Problem Statement"]).toBe("Problem");
+    });
+  });
+
+  it("exports restricted content in full for cleared admins", async () => {
+    clearance.cleared = true;
+    const [row] = await exportRows([makeRequest("restricted")]);
+
+    expect(row.Title).toBe("Secret project");
+    expect(row["Key Dependencies"]).toBe("Dependencies");
+  });
+});
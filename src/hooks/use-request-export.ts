@@ -0,0 +1,108 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
+import { useAdmins } from '@/hooks/use-admins';
+import { getPriorityConfig } from '@/lib/request-sla';
+import { PROJECT_TYPES } from '@/lib/request-form';
+import { downloadRows, type ExportColumn, type ExportFormat } from '@/lib/request-export';
+
+// The row plus the computed reporting columns an export needs
+export const REQUEST_EXPORT_COLUMNS =
+  '*, submitter_name, submitter_email, comment_count, last_status_change_at, decided_at';
+
+export type ExportRequest = Pick<
+  Tables<'project_requests'>,
+  | 'id'
+  | 'title'
+  | 'status'
+  | 'priority'
+  | 'project_types'
+  | 'confidentiality_level'
+  | 'estimated_duration'
+  | 'strategic_alignment'
+  | 'problem_statement'
+  | 'expected_outcomes'
+  | 'key_dependencies'
+  | 'assigned_to'
+  | 'created_at'
+  | 'submitted_at'
+  | 'first_responded_at'
+  | 'submitter_name'
+  | 'submitter_email'
+  | 'comment_count'
+  | 'last_status_change_at'
+  | 'decided_at'
+>;
+
+const CONFIDENTIALITY_LABELS: Record<string, string> = {
+  public: 'Public',
+  internal: 'Internal',
+  restricted: 'Restricted / NDA',
+};
+
+const MASKED = '[Restricted]';
+
+const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+const fetchClearance = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('export_clearances')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+// Builds CSV and Excel files of requests. Restricted requests have their content masked
+// unless the exporting admin has been cleared in Settings. The masking happens here in
+// the browser: it keeps restricted content out of files by default, but it is not access
+// control, as the same admin can still read every row through the API.
+export function useRequestExport() {
+  const { user } = useAuth();
+  const { getStatusConfig } = useRequestWorkflow();
+  const { getAdminName } = useAdmins();
+  const { data: cleared = false } = useQuery({
+    queryKey: ['export-clearance', user?.id],
+    queryFn: () => fetchClearance(user!.id),
+    enabled: !!user,
+  });
+
+  const isMasked = (request: ExportRequest) => !cleared && request.confidentiality_level === 'restricted';
+  const text = (request: ExportRequest, value: string | null) => (isMasked(request) ? MASKED : value);
+
+  const columns: ExportColumn<ExportRequest>[] = [
+    { header: 'Reference', value: r => r.id, width: 38 },
+    { header: 'Title', value: r => text(r, r.title), width: 40 },
+    { header: 'Status', value: r => getStatusConfig(r.status).label },
+    { header: 'Priority', value: r => getPriorityConfig(r.priority).label },
+    {
+      header: 'Project Types',
+      value: r => r.project_types.map(t => PROJECT_TYPES.find(p => p.id === t)?.label || t).join('; '),
+      width: 30,
+    },
+    { header: 'Confidentiality', value: r => CONFIDENTIALITY_LABELS[r.confidentiality_level] },
+    { header: 'Submitted By', value: r => r.submitter_name, width: 24 },
+    { header: 'Submitter Email', value: r => r.submitter_email, width: 30 },
+    { header: 'Assignee', value: r => getAdminName(r.assigned_to), width: 24 },
+    { header: 'Submitted', value: r => toDate(r.submitted_at ?? r.created_at) },
+    { header: 'First Response', value: r => toDate(r.first_responded_at) },
+    { header: 'Last Status Change', value: r => toDate(r.last_status_change_at) },
+    { header: 'Decided', value: r => toDate(r.decided_at) },
+    { header: 'Comments', value: r => r.comment_count ?? 0 },
+    { header: 'Estimated Duration', value: r => r.estimated_duration },
+    { header: 'Strategic Alignment', value: r => text(r, r.strategic_alignment), width: 50 },
+    { header: 'Problem Statement', value: r => text(r, r.problem_statement), width: 50 },
+    { header: 'Expected Outcomes', value: r => text(r, r.expected_outcomes), width: 50 },
+    { header: 'Key Dependencies', value: r => text(r, r.key_dependencies), width: 50 },
+  ];
+
+  const exportRequests = (requests: ExportRequest[], exportFormat: ExportFormat, name = 'requests') =>
+    downloadRows(requests, columns, `${name}-${format(new Date(), 'yyyy-MM-dd')}`, exportFormat);
+
+  return { cleared, exportRequests };
+}
@@ -0,0 +1,98 @@
+import type { ReactNode } from "react";
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { useRequestWorkflow, type RequestStatus, type StatusTransition } from "@/hooks/use-request-workflow";
+
+const status = (key: string, sort_order: number, tone = "neutral"): RequestStatus => ({
+  key,
+  label: key.replace("_", " "),
+  sort_order,
+  tone,
+  description: null,
+  is_initial: sort_order === 1,
+  is_terminal: false,
+  created_at: "2026-01-01T00:00:00Z",
+});
+
+const transition = (from_status: string, to_status: string, actor_role: string): StatusTransition => ({
+  id: `${from_status}-${to_status}-${actor_role}`,
+  from_status,
+  to_status,
+  actor_role,
+  requires_comment: false,
+  created_at: "2026-01-01T00:00:00Z",
+});
+
+const STATUSES = [
+  status("pending", 1),
+  status("in_review", 2, "info"),
+  status("needs_info", 3, "warning"),
+  status("approved", 4, "success"),
+  status("rejected", 5, "danger"),
+];
+
+// Stored out of workflow order so the hook has to sort them
+const TRANSITIONS = [
+  transition("in_review", "rejected", "admin"),
+  transition("in_review", "approved", "admin"),
+  transition("in_review", "needs_info", "admin"),
+  transition("pending", "in_review", "admin"),
+  transition("needs_info", "in_review", "owner"),
+  transition("in_review", "withdrawn", "owner"),
+];
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: (table: string) => ({
+      select: () =>
+        table === "request_statuses"
+          ? { order: async () => ({ data: STATUSES, error: null }) }
+          : Promise.resolve({ data: TRANSITIONS, error: null }),
+    }),
+  },
+}));
+
+const renderWorkflow = async () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  const { result } = renderHook(() => useRequestWorkflow(), { wrapper });
+  await waitFor(() => expect(result.current.loading).toBe(false));
+  return result.current;
+};
+
+describe("useRequestWorkflow", () => {
+  it("only offers transitions from the current status for the given actor", async () => {
+    const { getNextTransitions } = await renderWorkflow();
+
+    expect(getNextTransitions("pending", "admin").map(t => t.to_status)).toEqual(["in_review"]);
+    expect(getNextTransitions("needs_info", "owner").map(t => t.to_status)).toEqual(["in_review"]);
+    expect(getNextTransitions("pending", "owner")).toEqual([]);
+    expect(getNextTransitions("approved", "admin")).toEqual([]);
+  });
+
+  it("orders next steps by the target status's place in the workflow", async () => {
+    const { getNextTransitions } = await renderWorkflow();
+
+    expect(getNextTransitions("in_review", "admin").map(t => t.to_status)).toEqual([
+      "needs_info",
+      "approved",
+      "rejected",
+    ]);
+  });
+
+  it("looks up the label and tone of a known status", async () => {
+    const { getStatusConfig } = await renderWorkflow();
+
+    expect(getStatusConfig("approved")).toEqual({ label: "approved", className: "status-approved" });
+    expect(getStatusConfig("needs_info")).toEqual({ label: "needs info", className: "status-warning" });
+  });
+
+  it("falls back to the raw key and a neutral tone for unknown statuses", async () => {
+    const { getStatusConfig } = await renderWorkflow();
+
+    expect(getStatusConfig("archived")).toEqual({ label: "archived", className: "status-pending" });
+  });
+});
@@ -0,0 +1,60 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type RequestStatus = Tables<'request_statuses'>;
+export type StatusTransition = Tables<'request_status_transitions'>;
+export type TransitionActor = 'owner' | 'admin';
+
+const toneClasses: Record<string, string> = {
+  neutral: 'status-pending',
+  info: 'status-in-review',
+  warning: 'status-warning',
+  success: 'status-approved',
+  danger: 'status-rejected',
+};
+
+const fetchWorkflow = async () => {
+  const [statusesResult, transitionsResult] = await Promise.all([
+    supabase.from('request_statuses').select('*').order('sort_order', { ascending: true }),
+    supabase.from('request_status_transitions').select('*'),
+  ]);
+
+  if (statusesResult.error) throw statusesResult.error;
+  if (transitionsResult.error) throw transitionsResult.error;
+
+  return {
+    statuses: statusesResult.data,
+    transitions: transitionsResult.data,
+  };
+};
+
+export function useRequestWorkflow() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['request-workflow'],
+    queryFn: fetchWorkflow,
+    staleTime: Infinity,
+  });
+
+  const statuses = data?.statuses ?? [];
+  const transitions = data?.transitions ?? [];
+
+  const getStatusConfig = (key: string) => {
+    const status = statuses.find(s => s.key === key);
+    return {
+      label: status?.label ?? key,
+      className: toneClasses[status?.tone ?? 'neutral'] ?? toneClasses.neutral,
+    };
+  };
+
+  // Legal next steps from `from` for the given actor, in workflow order
+  const getNextTransitions = (from: string, actor: TransitionActor) =>
+    transitions
+      .filter(t => t.from_status === from && t.actor_role === actor)
+      .sort((a, b) =>
+        (statuses.find(s => s.key === a.to_status)?.sort_order ?? 0) -
+        (statuses.find(s => s.key === b.to_status)?.sort_order ?? 0)
+      );
+
+  return { statuses, transitions, loading: isLoading, getStatusConfig, getNextTransitions };
+}
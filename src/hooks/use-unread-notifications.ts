@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+
+// Live count of the signed-in user's unread notifications, for the header bell
+export function useUnreadNotificationCount() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    if (!userId) {
+      setCount(0);
+      return;
+    }
+
+    const fetchCount = async () => {
+      const { count: unread, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_read', false);
+
+      if (error) {
+        console.error('Error fetching unread notifications:', error);
+      } else {
+        setCount(unread ?? 0);
+      }
+    };
+
+    fetchCount();
+
+    const channel = supabase
+      .channel(`notification-count-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => fetchCount()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  return count;
+}
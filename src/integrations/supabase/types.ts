@@ -14,26 +14,123 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_deactivations: {
+        Row: {
+          created_at: string
+          deactivated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deactivated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deactivated_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      admin_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          last_sent_at: string
+          redeemed_at: string | null
+          redeemed_by: string | null
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          last_sent_at?: string
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          last_sent_at?: string
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: []
+      }
+      approval_rules: {
+        Row: {
+          confidentiality_level: Database["public"]["Enums"]["confidentiality_level"] | null
+          created_at: string
+          created_by: string | null
+          estimated_durations: string[] | null
+          id: string
+          name: string
+          project_type: string | null
+          required_approvals: number
+        }
+        Insert: {
+          confidentiality_level?: Database["public"]["Enums"]["confidentiality_level"] | null
+          created_at?: string
+          created_by?: string | null
+          estimated_durations?: string[] | null
+          id?: string
+          name: string
+          project_type?: string | null
+          required_approvals: number
+        }
+        Update: {
+          confidentiality_level?: Database["public"]["Enums"]["confidentiality_level"] | null
+          created_at?: string
+          created_by?: string | null
+          estimated_durations?: string[] | null
+          id?: string
+          name?: string
+          project_type?: string | null
+          required_approvals?: number
+        }
+        Relationships: []
+      }
       comments: {
         Row: {
-          admin_id: string
+          author_id: string
+          author_name: string | null
+          author_role: string
           comment: string
           created_at: string
           id: string
+          is_internal: boolean
           request_id: string
         }
         Insert: {
-          admin_id: string
+          author_id: string
+          author_role?: string
           comment: string
           created_at?: string
           id?: string
+          is_internal?: boolean
           request_id: string
         }
         Update: {
-          admin_id?: string
+          author_id?: string
+          author_role?: string
           comment?: string
           created_at?: string
           id?: string
+          is_internal?: boolean
           request_id?: string
         }
         Relationships: [
@@ -46,32 +143,59 @@ export type Database = {
           },
         ]
       }
+      export_clearances: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
+          actor_id: string | null
           comment_id: string | null
           created_at: string
           id: string
           is_read: boolean
           message: string
+          metadata: Json
           request_id: string
+          type: Database["public"]["Enums"]["notification_type"]
           user_id: string
         }
         Insert: {
+          actor_id?: string | null
           comment_id?: string | null
           created_at?: string
           id?: string
           is_read?: boolean
           message: string
+          metadata?: Json
           request_id: string
+          type?: Database["public"]["Enums"]["notification_type"]
           user_id: string
         }
         Update: {
+          actor_id?: string | null
           comment_id?: string | null
           created_at?: string
           id?: string
           is_read?: boolean
           message?: string
+          metadata?: Json
           request_id?: string
+          type?: Database["public"]["Enums"]["notification_type"]
           user_id?: string
         }
         Relationships: [
@@ -117,51 +241,140 @@ export type Database = {
       }
       project_requests: {
         Row: {
+          archived_at: string | null
+          archived_by: string | null
+          assigned_at: string | null
+          assigned_to: string | null
+          comment_count: number | null
           confidentiality_level: Database["public"]["Enums"]["confidentiality_level"]
           created_at: string
+          decided_at: string | null
           estimated_duration: string | null
           expected_outcomes: string
+          first_responded_at: string | null
+          first_response_due_at: string | null
           id: string
           key_dependencies: string | null
+          last_status_change_at: string | null
+          priority: Database["public"]["Enums"]["request_priority"]
           problem_statement: string
           project_types: string[]
-          status: Database["public"]["Enums"]["request_status"]
+          resubmission_of: string | null
+          sla_breach_notified_at: string | null
+          status: string
           strategic_alignment: string | null
+          submitted_at: string | null
+          submitter_email: string | null
+          submitter_name: string | null
           title: string
           updated_at: string
           user_id: string
+          weighted_score: number | null
         }
         Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
           confidentiality_level?: Database["public"]["Enums"]["confidentiality_level"]
           created_at?: string
           estimated_duration?: string | null
           expected_outcomes: string
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
           id?: string
           key_dependencies?: string | null
+          priority?: Database["public"]["Enums"]["request_priority"]
           problem_statement: string
           project_types?: string[]
-          status?: Database["public"]["Enums"]["request_status"]
+          resubmission_of?: string | null
+          sla_breach_notified_at?: string | null
+          status?: string
           strategic_alignment?: string | null
+          submitted_at?: string | null
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
           confidentiality_level?: Database["public"]["Enums"]["confidentiality_level"]
           created_at?: string
           estimated_duration?: string | null
           expected_outcomes?: string
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
           id?: string
           key_dependencies?: string | null
+          priority?: Database["public"]["Enums"]["request_priority"]
           problem_statement?: string
           project_types?: string[]
-          status?: Database["public"]["Enums"]["request_status"]
+          resubmission_of?: string | null
+          sla_breach_notified_at?: string | null
+          status?: string
           strategic_alignment?: string | null
+          submitted_at?: string | null
           title?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "project_requests_resubmission_of_fkey"
+            columns: ["resubmission_of"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_requests_status_fkey"
+            columns: ["status"]
+            isOneToOne: false
+            referencedRelation: "request_statuses"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      request_approval_votes: {
+        Row: {
+          created_at: string
+          decision: string
+          id: string
+          rationale: string
+          request_id: string
+          updated_at: string
+          voter_id: string
+        }
+        Insert: {
+          created_at?: string
+          decision: string
+          id?: string
+          rationale: string
+          request_id: string
+          updated_at?: string
+          voter_id: string
+        }
+        Update: {
+          created_at?: string
+          decision?: string
+          id?: string
+          rationale?: string
+          request_id?: string
+          updated_at?: string
+          voter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_approval_votes_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       request_attachments: {
         Row: {
@@ -204,6 +417,419 @@ export type Database = {
           },
         ]
       }
+      request_co_reviewers: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          request_id: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          request_id: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          request_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_co_reviewers_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_required_approvers: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          request_id: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          request_id: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          request_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_required_approvers_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_revision_views: {
+        Row: {
+          request_id: string
+          revision_number: number
+          user_id: string
+          viewed_at: string
+        }
+        Insert: {
+          request_id: string
+          revision_number: number
+          user_id: string
+          viewed_at?: string
+        }
+        Update: {
+          request_id?: string
+          revision_number?: number
+          user_id?: string
+          viewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_revision_views_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_revisions: {
+        Row: {
+          confidentiality_level: Database["public"]["Enums"]["confidentiality_level"]
+          created_at: string
+          edited_by: string | null
+          estimated_duration: string | null
+          expected_outcomes: string
+          id: string
+          key_dependencies: string | null
+          problem_statement: string
+          project_types: string[]
+          request_id: string
+          revision_number: number
+          strategic_alignment: string | null
+          title: string
+        }
+        Insert: {
+          confidentiality_level: Database["public"]["Enums"]["confidentiality_level"]
+          created_at?: string
+          edited_by?: string | null
+          estimated_duration?: string | null
+          expected_outcomes: string
+          id?: string
+          key_dependencies?: string | null
+          problem_statement: string
+          project_types?: string[]
+          request_id: string
+          revision_number: number
+          strategic_alignment?: string | null
+          title: string
+        }
+        Update: {
+          confidentiality_level?: Database["public"]["Enums"]["confidentiality_level"]
+          created_at?: string
+          edited_by?: string | null
+          estimated_duration?: string | null
+          expected_outcomes?: string
+          id?: string
+          key_dependencies?: string | null
+          problem_statement?: string
+          project_types?: string[]
+          request_id?: string
+          revision_number?: number
+          strategic_alignment?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_revisions_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_scores: {
+        Row: {
+          created_at: string
+          criterion_id: string
+          id: string
+          request_id: string
+          reviewer_id: string
+          score: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          criterion_id: string
+          id?: string
+          request_id: string
+          reviewer_id: string
+          score: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          criterion_id?: string
+          id?: string
+          request_id?: string
+          reviewer_id?: string
+          score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_scores_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "scoring_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_scores_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_search_documents: {
+        Row: {
+          document: unknown
+          request_id: string
+          updated_at: string
+        }
+        Insert: {
+          document: unknown
+          request_id: string
+          updated_at?: string
+        }
+        Update: {
+          document?: unknown
+          request_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_search_documents_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: true
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_status_history: {
+        Row: {
+          changed_by: string | null
+          comment: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          request_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          request_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          request_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_status_history_from_status_fkey"
+            columns: ["from_status"]
+            isOneToOne: false
+            referencedRelation: "request_statuses"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "request_status_history_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_status_history_to_status_fkey"
+            columns: ["to_status"]
+            isOneToOne: false
+            referencedRelation: "request_statuses"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      request_status_transitions: {
+        Row: {
+          actor_role: string
+          created_at: string
+          from_status: string
+          id: string
+          requires_comment: boolean
+          to_status: string
+        }
+        Insert: {
+          actor_role: string
+          created_at?: string
+          from_status: string
+          id?: string
+          requires_comment?: boolean
+          to_status: string
+        }
+        Update: {
+          actor_role?: string
+          created_at?: string
+          from_status?: string
+          id?: string
+          requires_comment?: boolean
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_status_transitions_from_status_fkey"
+            columns: ["from_status"]
+            isOneToOne: false
+            referencedRelation: "request_statuses"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "request_status_transitions_to_status_fkey"
+            columns: ["to_status"]
+            isOneToOne: false
+            referencedRelation: "request_statuses"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      request_statuses: {
+        Row: {
+          created_at: string
+          description: string | null
+          is_initial: boolean
+          is_terminal: boolean
+          key: string
+          label: string
+          sort_order: number
+          tone: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          is_initial?: boolean
+          is_terminal?: boolean
+          key: string
+          label: string
+          sort_order?: number
+          tone?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          is_initial?: boolean
+          is_terminal?: boolean
+          key?: string
+          label?: string
+          sort_order?: number
+          tone?: string
+        }
+        Relationships: []
+      }
+      restricted_access_grants: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      scoring_criteria: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          sort_order: number
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          sort_order?: number
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          sort_order?: number
+          weight?: number
+        }
+        Relationships: []
+      }
+      sla_policies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          first_response_business_days: number
+          id: string
+          project_type: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          first_response_business_days: number
+          id?: string
+          project_type?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          first_response_business_days?: number
+          id?: string
+          project_type?: string | null
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -227,10 +853,169 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      request_score_summaries: {
+        Row: {
+          request_id: string | null
+          reviewer_count: number | null
+          weighted_score: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_scores_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "project_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      add_business_days: {
+        Args: { _days: number; _start: string }
+        Returns: string
+      }
+      author_name: {
+        Args: { "": Database["public"]["Tables"]["comments"]["Row"] }
+        Returns: string
+      }
+      bulk_update_requests: {
+        Args: {
+          _action: string
+          _assignee?: string
+          _comment?: string
+          _is_internal?: boolean
+          _request_ids: string[]
+          _status?: string
+        }
+        Returns: {
+          message: string
+          request_id: string
+          succeeded: boolean
+          title: string
+        }[]
+      }
+      can_review_request: {
+        Args: { _request_id: string; _user_id: string }
+        Returns: boolean
+      }
+      comment_count: {
+        Args: { "": Database["public"]["Tables"]["project_requests"]["Row"] }
+        Returns: number
+      }
+      decided_at: {
+        Args: { "": Database["public"]["Tables"]["project_requests"]["Row"] }
+        Returns: string
+      }
+      ensure_other_active_admin: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      get_admin_invitation: {
+        Args: { _token: string }
+        Returns: {
+          email: string
+          expires_at: string
+        }[]
+      }
+      get_approval_summary: {
+        Args: { _request_id: string }
+        Returns: {
+          approvals: number
+          approver_rejected: boolean
+          missing_approvers: string[]
+          rejections: number
+          required_approvals: number
+        }[]
+      }
+      get_first_response_due: {
+        Args: { _project_types: string[]; _submitted_at: string }
+        Returns: string
+      }
+      get_request_breakdown: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          approved_count: number
+          dimension: string
+          rejected_count: number
+          request_count: number
+          value: string
+        }[]
+      }
+      get_request_decision: {
+        Args: { _request_id: string }
+        Returns: {
+          comment: string
+          decided_at: string
+          decided_by: string
+          decided_by_name: string
+          status: string
+        }[]
+      }
       get_request_owner: { Args: { _request_id: string }; Returns: string }
+      get_request_stats: {
+        Args: never
+        Returns: {
+          overdue_count: number
+          request_count: number
+          status: string
+        }[]
+      }
+      get_request_turnaround: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          approved_count: number
+          median_decision_hours: number
+          median_first_response_hours: number
+          rejected_count: number
+          submitted_count: number
+          withdrawn_count: number
+        }[]
+      }
+      get_request_weekly_metrics: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          approved_count: number
+          median_decision_hours: number
+          median_first_response_hours: number
+          rejected_count: number
+          submitted_count: number
+          week_start: string
+          withdrawn_count: number
+        }[]
+      }
+      get_reviewer_workload: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          decided_count: number
+          open_assigned_count: number
+          open_co_review_count: number
+          user_id: string
+        }[]
+      }
+      get_search_snippets: {
+        Args: { _query: string; _request_ids: string[] }
+        Returns: {
+          matched_in: string
+          request_id: string
+          snippet: string
+        }[]
+      }
+      get_user_accounts: {
+        Args: never
+        Returns: {
+          created_at: string
+          deactivated_at: string
+          deactivated_by: string
+          email: string
+          full_name: string
+          last_sign_in_at: string
+          open_request_count: number
+          request_count: number
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -238,11 +1023,146 @@ export type Database = {
         }
         Returns: boolean
       }
+      last_status_change_at: {
+        Args: { "": Database["public"]["Tables"]["project_requests"]["Row"] }
+        Returns: string
+      }
+      notify_reviewer_assignment: {
+        Args: { _assignee_id: string; _request_id: string; _reviewer_role: string }
+        Returns: undefined
+      }
+      notify_sla_breaches: { Args: never; Returns: number }
+      refresh_request_search_document: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
+      reissue_admin_invitation: {
+        Args: { _invitation_id: string }
+        Returns: {
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          last_sent_at: string
+          redeemed_at: string | null
+          redeemed_by: string | null
+          revoked_at: string | null
+          token: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "admin_invitations"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      release_admin_duties: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      search_requests: {
+        Args: { _query: string }
+        Returns: {
+          archived_at: string | null
+          archived_by: string | null
+          assigned_at: string | null
+          assigned_to: string | null
+          confidentiality_level: Database["public"]["Enums"]["confidentiality_level"]
+          created_at: string
+          estimated_duration: string | null
+          expected_outcomes: string
+          first_responded_at: string | null
+          first_response_due_at: string | null
+          id: string
+          key_dependencies: string | null
+          priority: Database["public"]["Enums"]["request_priority"]
+          problem_statement: string
+          project_types: string[]
+          resubmission_of: string | null
+          sla_breach_notified_at: string | null
+          status: string
+          strategic_alignment: string | null
+          submitted_at: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "project_requests"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      searchable_file_name: { Args: { _file_name: string }; Returns: string }
+      set_user_active: {
+        Args: { _active: boolean; _user_id: string }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      submitter_email: {
+        Args: { "": Database["public"]["Tables"]["project_requests"]["Row"] }
+        Returns: string
+      }
+      submitter_name: {
+        Args: { "": Database["public"]["Tables"]["project_requests"]["Row"] }
+        Returns: string
+      }
+      transition_request_status: {
+        Args: { _comment?: string; _request_id: string; _to_status: string }
+        Returns: {
+          archived_at: string | null
+          archived_by: string | null
+          assigned_at: string | null
+          assigned_to: string | null
+          confidentiality_level: Database["public"]["Enums"]["confidentiality_level"]
+          created_at: string
+          estimated_duration: string | null
+          expected_outcomes: string
+          first_responded_at: string | null
+          first_response_due_at: string | null
+          id: string
+          key_dependencies: string | null
+          priority: Database["public"]["Enums"]["request_priority"]
+          problem_statement: string
+          project_types: string[]
+          resubmission_of: string | null
+          sla_breach_notified_at: string | null
+          status: string
+          strategic_alignment: string | null
+          submitted_at: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "project_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      weighted_score: {
+        Args: { "": Database["public"]["Tables"]["project_requests"]["Row"] }
+        Returns: number
+      }
     }
     Enums: {
-      app_role: "user" | "admin"
+      app_role: "user" | "admin" | "reviewer"
       confidentiality_level: "public" | "internal" | "restricted"
-      request_status: "pending" | "in_review" | "approved" | "rejected"
+      notification_type:
+        | "comment"
+        | "status_change"
+        | "assignment"
+        | "sla_breach"
+      request_priority: "low" | "normal" | "high" | "urgent"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -370,9 +1290,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["user", "admin"],
+      app_role: ["user", "admin", "reviewer"],
       confidentiality_level: ["public", "internal", "restricted"],
-      request_status: ["pending", "in_review", "approved", "rejected"],
+      notification_type: [
+        "comment",
+        "status_change",
+        "assignment",
+        "sla_breach",
+      ],
+      request_priority: ["low", "normal", "high", "urgent"],
     },
   },
 } as const
@@ -2,7 +2,7 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 
-type UserRole = 'user' | 'admin';
+export type UserRole = 'user' | 'reviewer' | 'admin';
 
 interface AuthContextType {
   user: User | null;
@@ -10,7 +10,7 @@ interface AuthContextType {
   role: UserRole | null;
   profile: { full_name: string; email: string } | null;
   loading: boolean;
-  signUp: (email: string, password: string, fullName: string, isAdmin?: boolean) => Promise<{ error: Error | null }>;
+  signUp: (email: string, password: string, fullName: string, adminInviteToken?: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
 }
@@ -85,12 +85,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email: string, password: string, fullName: string, isAdmin: boolean = false) => {
+  const signUp = async (email: string, password: string, fullName: string, adminInviteToken?: string) => {
     const { error } = await supabase.auth.signUp({
       email,
       password,
       options: {
-        data: { full_name: fullName, is_admin_signup: isAdmin },
+        // The admin role is only granted server-side when the invite token is valid for this email
+        data: { full_name: fullName, admin_invite_token: adminInviteToken ?? null },
         emailRedirectTo: window.location.origin,
       },
     });
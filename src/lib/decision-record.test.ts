@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { downloadDecisionRecord, formatFileSize, type DecisionRecord } from "@/lib/decision-record";
+
+// Records what gets written to each page instead of drawing anything
+const pdf = vi.hoisted(() => ({
+  pages: [] as string[][],
+  saved: null as string | null,
+}));
+
+vi.mock("jspdf", () => ({
+  jsPDF: class {
+    private current = 0;
+    internal = { pageSize: { getWidth: () => 210, getHeight: () => 297 } };
+
+    constructor() {
+      pdf.pages = [[]];
+    }
+
+    addPage() {
+      pdf.pages.push([]);
+      this.current = pdf.pages.length - 1;
+    }
+    setPage(page: number) {
+      this.current = page - 1;
+    }
+    getNumberOfPages() {
+      return pdf.pages.length;
+    }
+    text(text: string) {
+      pdf.pages[this.current].push(text);
+    }
+    splitTextToSize(text: string) {
+      return [text];
+    }
+    save(fileName: string) {
+      pdf.saved = fileName;
+    }
+    setFont() {}
+    setFontSize() {}
+    setTextColor() {}
+    setDrawColor() {}
+    line() {}
+    setProperties() {}
+  },
+}));
+
+const makeRecord = (overrides: Partial<DecisionRecord> = {}): DecisionRecord => ({
+  reference: "REQ-1",
+  title: "Case management upgrade",
+  confidentialityLevel: "restricted",
+  generatedAt: "2 Mar 2026",
+  decision: { status: "Approved", decidedAt: "1 Mar 2026", decidedBy: "Alex Admin", comment: null },
+  fields: [{ label: "Problem Statement", value: "Slow case lookups" }],
+  attachments: [],
+  timeline: [],
+  comments: [],
+  ...overrides,
+});
+
+describe("formatFileSize", () => {
+  it("uses bytes below a kilobyte", () => {
+    expect(formatFileSize(0)).toBe("0 B");
+    expect(formatFileSize(1023)).toBe("1023 B");
+  });
+
+  it("uses kilobytes below a megabyte", () => {
+    expect(formatFileSize(1024)).toBe("1.0 KB");
+    expect(formatFileSize(1536)).toBe("1.5 KB");
+  });
+
+  it("uses megabytes from a megabyte up", () => {
+    expect(formatFileSize(1024 * 1024)).toBe("1.0 MB");
+    expect(formatFileSize(5.25 * 1024 * 1024)).toBe("5.3 MB");
+  });
+});
+
+describe("downloadDecisionRecord", () => {
+  beforeEach(() => {
+    pdf.pages = [];
+    pdf.saved = null;
+  });
+
+  it("saves the document under the given file name", async () => {
+    await downloadDecisionRecord(makeRecord(), "record.pdf");
+    expect(pdf.saved).toBe("record.pdf");
+  });
+
+  it("prints the confidentiality marking and page number on every page", async () => {
+    const comments = Array.from({ length: 80 }, (_, i) => ({ author: "Sam", at: "1 Mar 2026", text: `Comment ${i}` }));
+    await downloadDecisionRecord(makeRecord({ comments }), "record.pdf");
+
+    expect(pdf.pages.length).toBeGreaterThan(1);
+    pdf.pages.forEach((texts, i) => {
+      const markings = texts.filter(t => t === "RESTRICTED / NDA - AUTHORISED RECIPIENTS ONLY");
+      expect(markings).toHaveLength(2);
+      expect(texts).toContain(`Page ${i + 1} of ${pdf.pages.length}`);
+    });
+  });
+
+  it("uses the marking for the request's confidentiality level", async () => {
+    await downloadDecisionRecord(makeRecord({ confidentialityLevel: "public" }), "record.pdf");
+    expect(pdf.pages[0]).toContain("PUBLIC");
+  });
+
+  it("says so when there are no attachments or comments", async () => {
+    await downloadDecisionRecord(makeRecord(), "record.pdf");
+    expect(pdf.pages[0]).toEqual(expect.arrayContaining(["No attachments.", "No comments."]));
+  });
+
+  it("lists attachments and comments when there are some", async () => {
+    await downloadDecisionRecord(
+      makeRecord({
+        attachments: [{ fileName: "plan.pdf", size: "1.5 KB", uploadedAt: "1 Mar 2026" }],
+        comments: [{ author: "Sam", at: "1 Mar 2026", text: "Looks good" }],
+      }),
+      "record.pdf"
+    );
+
+    const texts = pdf.pages.flat();
+    expect(texts).toContain("plan.pdf (1.5 KB), uploaded 1 Mar 2026");
+    expect(texts).toContain("Looks good");
+    expect(texts).not.toContain("No attachments.");
+    expect(texts).not.toContain("No comments.");
+  });
+
+  it("only includes a reason when the decision has a comment", async () => {
+    await downloadDecisionRecord(makeRecord(), "record.pdf");
+    expect(pdf.pages.flat()).not.toContain("Reason");
+
+    await downloadDecisionRecord(
+      makeRecord({ decision: { status: "Rejected", decidedAt: "1 Mar 2026", decidedBy: "Alex Admin", comment: "Out of scope" } }),
+      "record.pdf"
+    );
+    expect(pdf.pages.flat()).toEqual(expect.arrayContaining(["Reason", "Out of scope"]));
+  });
+});
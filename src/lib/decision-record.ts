@@ -0,0 +1,139 @@
+import type { jsPDF } from 'jspdf';
+import type { Database } from '@/integrations/supabase/types';
+
+type ConfidentialityLevel = Database['public']['Enums']['confidentiality_level'];
+
+export interface DecisionRecord {
+  reference: string;
+  title: string;
+  confidentialityLevel: ConfidentialityLevel;
+  generatedAt: string;
+  decision: { status: string; decidedAt: string; decidedBy: string; comment: string | null };
+  fields: { label: string; value: string }[];
+  attachments: { fileName: string; size: string; uploadedAt: string }[];
+  timeline: { at: string; description: string; actor: string; comment: string | null }[];
+  comments: { author: string; at: string; text: string }[];
+}
+
+// Printed at the top and bottom of every page
+const MARKINGS: Record<ConfidentialityLevel, { label: string; color: [number, number, number] }> = {
+  public: { label: 'PUBLIC', color: [71, 85, 105] },
+  internal: { label: 'INTERNAL - NOT FOR EXTERNAL DISTRIBUTION', color: [37, 99, 235] },
+  restricted: { label: 'RESTRICTED / NDA - AUTHORISED RECIPIENTS ONLY', color: [220, 38, 38] },
+};
+
+const PAGE_MARGIN = 20;
+const CONTENT_TOP = 28;
+const CONTENT_BOTTOM = 22;
+const LINE_HEIGHT = 5;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const renderRecord = (doc: jsPDF, record: DecisionRecord) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = CONTENT_TOP;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - CONTENT_BOTTOM) {
+      doc.addPage();
+      y = CONTENT_TOP;
+    }
+  };
+
+  const paragraph = (text: string, { size = 10, bold = false, indent = 0, color = 30 } = {}) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - indent);
+    const lineHeight = Math.max(LINE_HEIGHT, size * 0.5);
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      doc.text(line, PAGE_MARGIN + indent, y);
+      y += lineHeight;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(16);
+    y += 4;
+    paragraph(text.toUpperCase(), { size: 11, bold: true });
+    doc.setDrawColor(200);
+    doc.line(PAGE_MARGIN, y - 3, pageWidth - PAGE_MARGIN, y - 3);
+    y += 2;
+  };
+
+  const field = (label: string, value: string) => {
+    paragraph(label, { size: 9, bold: true, color: 100 });
+    paragraph(value || '-', { indent: 2 });
+    y += 2;
+  };
+
+  // Title block
+  paragraph('Decision Record', { size: 9, bold: true, color: 100 });
+  paragraph(record.title, { size: 16, bold: true });
+  paragraph(`Reference ${record.reference} - generated ${record.generatedAt}`, { size: 9, color: 100 });
+
+  heading('Decision');
+  field('Outcome', record.decision.status);
+  field('Decided by', record.decision.decidedBy);
+  field('Decided on', record.decision.decidedAt);
+  if (record.decision.comment) field('Reason', record.decision.comment);
+
+  heading('Request');
+  for (const { label, value } of record.fields) field(label, value);
+
+  heading('Attachments');
+  if (record.attachments.length === 0) paragraph('No attachments.', { color: 100 });
+  for (const attachment of record.attachments) {
+    paragraph(`${attachment.fileName} (${attachment.size}), uploaded ${attachment.uploadedAt}`);
+  }
+
+  heading('Status Timeline');
+  for (const event of record.timeline) {
+    paragraph(`${event.at} - ${event.description}`, { bold: true });
+    paragraph(`by ${event.actor}`, { size: 9, indent: 2, color: 100 });
+    if (event.comment) paragraph(event.comment, { indent: 2 });
+    y += 1;
+  }
+
+  heading('Comments');
+  if (record.comments.length === 0) paragraph('No comments.', { color: 100 });
+  for (const comment of record.comments) {
+    paragraph(`${comment.author} - ${comment.at}`, { size: 9, bold: true, color: 100 });
+    paragraph(comment.text, { indent: 2 });
+    y += 2;
+  }
+
+  // Marking header and footer on every page, once the page count is known
+  const marking = MARKINGS[record.confidentialityLevel];
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(...marking.color);
+    doc.text(marking.label, pageWidth / 2, 12, { align: 'center' });
+    doc.text(marking.label, pageWidth / 2, pageHeight - 8, { align: 'center' });
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(`Ref. ${record.reference}`, PAGE_MARGIN, pageHeight - 14);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 14, { align: 'right' });
+  }
+};
+
+// jsPDF is only loaded when someone actually asks for a record
+export const downloadDecisionRecord = async (record: DecisionRecord, fileName: string) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: `Decision record - ${record.title}`, subject: MARKINGS[record.confidentialityLevel].label });
+  renderRecord(doc, record);
+  doc.save(fileName);
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { toCsv, type ExportColumn } from "@/lib/request-export";
+
+type Row = { name: string | null; note?: string; count?: number; at?: Date };
+
+const columns: ExportColumn<Row>[] = [
+  { header: "Name", value: r => r.name },
+  { header: "Note", value: r => r.note },
+];
+
+describe("toCsv", () => {
+  it("writes a header row and one line per row", () => {
+    expect(toCsv([{ name: "Alpha", note: "first" }, { name: "Beta", note: "second" }], columns)).toBe(
+      "Name,Note\r\nAlpha,first\r\nBeta,second"
+    );
+  });
+
+  it("quotes values containing commas, quotes or line breaks", () => {
+    const csv = toCsv(
+      [
+        { name: "Smith, Jane", note: 'said "hi"' },
+        { name: "two\nlines", note: "carriage\rreturn" },
+      ],
+      columns
+    );
+    expect(csv.split("\r\n")).toEqual([
+      "Name,Note",
+      '"Smith, Jane","said ""hi"""',
+      '"two\nlines","carriage\rreturn"',
+    ]);
+  });
+
+  it("stops text that starts like a formula from being evaluated", () => {
+    const csv = toCsv(
+      ["=HYPERLINK(\"http://x\")", "+1", "-2", "@SUM(A1)", "\tcmd", "\rcmd"].map(name => ({ name })),
+      [{ header: "Name", value: r => r.name }]
+    );
+    expect(csv.split("\r\n")).toEqual([
+      "Name",
+      '"\'=HYPERLINK(""http://x"")"',
+      "'+1",
+      "'-2",
+      "'@SUM(A1)",
+      "'\tcmd",
+      '"\'\rcmd"',
+    ]);
+  });
+
+  it("leaves negative numbers as numbers", () => {
+    expect(toCsv([{ name: "x", count: -3 }], [{ header: "Count", value: r => r.count }])).toBe("Count\r\n-3");
+  });
+
+  it("writes missing values as empty fields", () => {
+    expect(toCsv([{ name: null }], columns)).toBe("Name,Note\r\n,");
+  });
+
+  it("formats numbers and dates", () => {
+    const csv = toCsv([{ name: "x", count: 3, at: new Date(2026, 2, 2, 9, 5) }], [
+      { header: "Count", value: r => r.count },
+      { header: "At", value: r => r.at },
+    ]);
+    expect(csv).toBe("Count,At\r\n3,2026-03-02 09:05");
+  });
+
+  it("quotes headers that need it", () => {
+    expect(toCsv([], [{ header: "Owner, team", value: () => "" }])).toBe('"Owner, team"');
+  });
+});
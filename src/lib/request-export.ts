@@ -0,0 +1,70 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import { format } from 'date-fns';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportValue = string | number | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+  width?: number;
+}
+
+// Quote every field that could otherwise break the row apart, and stop requester-written
+// text that starts like a formula from being run by the spreadsheet that opens the file
+const escapeCsv = (value: ExportValue) => {
+  const raw = value == null ? '' : value instanceof Date ? format(value, 'yyyy-MM-dd HH:mm') : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: ExportColumn<T>[]) =>
+  [
+    columns.map(c => escapeCsv(c.header)).join(','),
+    ...rows.map(row => columns.map(c => escapeCsv(c.value(row))).join(',')),
+  ].join('\r\n');
+
+export const toXlsx = <T>(rows: T[], columns: ExportColumn<T>[], sheet: string) =>
+  writeXlsxFile(
+    [
+      columns.map(c => ({ value: c.header, fontWeight: 'bold' as const })),
+      ...rows.map(row => columns.map(c => c.value(row) ?? null)),
+    ],
+    {
+      sheet,
+      stickyRowsCount: 1,
+      dateFormat: 'yyyy-mm-dd hh:mm',
+      columns: columns.map(c => ({ width: c.width ?? 16 })),
+    }
+  ).toBlob();
+
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+
+  // Create a temporary anchor element to trigger download with the given filename
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadRows = async <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  fileName: string,
+  exportFormat: ExportFormat
+) => {
+  if (exportFormat === 'csv') {
+    downloadFile(toCsv(rows, columns), `${fileName}.csv`, 'text/csv');
+  } else {
+    downloadFile(
+      await toXlsx(rows, columns, 'Requests'),
+      `${fileName}.xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  }
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { EMPTY_FORM, fromRequestRow, toRequestRow, type RequestFormData } from "@/lib/request-form";
+
+const filledForm: RequestFormData = {
+  title: "Dark web monitoring pilot",
+  projectTypes: ["research", "threat-intelligence"],
+  strategicAlignment: "Supports the 2026 cyber strategy",
+  problemStatement: "Leaked credentials are found too late",
+  expectedOutcomes: "Alerts within a day of a leak",
+  estimatedDuration: "2-3 months",
+  keyDependencies: "Access to the intelligence feed",
+  confidentialityLevel: "restricted",
+};
+
+describe("request form drafts", () => {
+  it("restores a saved draft exactly", () => {
+    expect(fromRequestRow(toRequestRow(filledForm))).toEqual(filledForm);
+  });
+
+  it("restores an empty draft exactly", () => {
+    expect(fromRequestRow(toRequestRow(EMPTY_FORM))).toEqual(EMPTY_FORM);
+  });
+
+  it("saves blank optional fields as null", () => {
+    const row = toRequestRow({ ...filledForm, strategicAlignment: "", estimatedDuration: "", keyDependencies: "" });
+
+    expect(row).toMatchObject({ strategic_alignment: null, estimated_duration: null, key_dependencies: null });
+  });
+
+  it("keeps blank required fields as empty strings", () => {
+    const row = toRequestRow(EMPTY_FORM);
+
+    expect(row).toMatchObject({ title: "", problem_statement: "", expected_outcomes: "", project_types: [] });
+  });
+
+  it("loads null optional fields as empty strings", () => {
+    const form = fromRequestRow({
+      ...toRequestRow(filledForm),
+      strategic_alignment: null,
+      estimated_duration: null,
+      key_dependencies: null,
+    });
+
+    expect(form).toMatchObject({ strategicAlignment: "", estimatedDuration: "", keyDependencies: "" });
+  });
+});
@@ -0,0 +1,76 @@
+import type { Database } from '@/integrations/supabase/types';
+
+type ProjectRequestRow = Database['public']['Tables']['project_requests']['Row'];
+
+export const PROJECT_TYPES = [
+  { id: 'research', label: 'Research' },
+  { id: 'threat-intelligence', label: 'Threat Intelligence' },
+  { id: 'prototype', label: 'Prototype / Tool' },
+  { id: 'advisory', label: 'Advisory' },
+  { id: 'training', label: 'Training' },
+  { id: 'other', label: 'Other' },
+];
+
+export const DURATION_OPTIONS = [
+  '1-2 weeks',
+  '1 month',
+  '2-3 months',
+  '3-6 months',
+  '6+ months',
+];
+
+export type RequestFormData = {
+  title: string;
+  projectTypes: string[];
+  strategicAlignment: string;
+  problemStatement: string;
+  expectedOutcomes: string;
+  estimatedDuration: string;
+  keyDependencies: string;
+  confidentialityLevel: Database['public']['Enums']['confidentiality_level'];
+};
+
+export const EMPTY_FORM: RequestFormData = {
+  title: '',
+  projectTypes: [],
+  strategicAlignment: '',
+  problemStatement: '',
+  expectedOutcomes: '',
+  estimatedDuration: '',
+  keyDependencies: '',
+  confidentialityLevel: 'internal',
+};
+
+export const toRequestRow = (data: RequestFormData) => ({
+  title: data.title,
+  project_types: data.projectTypes,
+  strategic_alignment: data.strategicAlignment || null,
+  problem_statement: data.problemStatement,
+  expected_outcomes: data.expectedOutcomes,
+  estimated_duration: data.estimatedDuration || null,
+  key_dependencies: data.keyDependencies || null,
+  confidentiality_level: data.confidentialityLevel,
+});
+
+export const fromRequestRow = (
+  row: Pick<
+    ProjectRequestRow,
+    | 'title'
+    | 'project_types'
+    | 'strategic_alignment'
+    | 'problem_statement'
+    | 'expected_outcomes'
+    | 'estimated_duration'
+    | 'key_dependencies'
+    | 'confidentiality_level'
+  >
+): RequestFormData => ({
+  title: row.title,
+  projectTypes: row.project_types,
+  strategicAlignment: row.strategic_alignment || '',
+  problemStatement: row.problem_statement,
+  expectedOutcomes: row.expected_outcomes,
+  estimatedDuration: row.estimated_duration || '',
+  keyDependencies: row.key_dependencies || '',
+  confidentialityLevel: row.confidentiality_level,
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { getPriorityConfig, getSlaState } from "@/lib/request-sla";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2026-03-02T12:00:00Z").getTime();
+
+const dueIn = (ms: number) => ({
+  first_response_due_at: new Date(NOW + ms).toISOString(),
+  first_responded_at: null,
+});
+
+describe("getSlaState", () => {
+  it("is on track with more than a day to go", () => {
+    expect(getSlaState(dueIn(48 * HOUR), false, NOW)).toBe("on_track");
+    expect(getSlaState(dueIn(24 * HOUR), false, NOW)).toBe("on_track");
+  });
+
+  it("is due soon within the last day", () => {
+    expect(getSlaState(dueIn(24 * HOUR - 1), false, NOW)).toBe("at_risk");
+    expect(getSlaState(dueIn(0), false, NOW)).toBe("at_risk");
+  });
+
+  it("is overdue once the deadline has passed", () => {
+    expect(getSlaState(dueIn(-1), false, NOW)).toBe("overdue");
+    expect(getSlaState(dueIn(-72 * HOUR), false, NOW)).toBe("overdue");
+  });
+
+  it("no longer applies once someone has responded", () => {
+    const request = { ...dueIn(-HOUR), first_responded_at: new Date(NOW - 2 * HOUR).toISOString() };
+    expect(getSlaState(request, false, NOW)).toBeNull();
+  });
+
+  it("no longer applies to closed requests", () => {
+    expect(getSlaState(dueIn(-HOUR), true, NOW)).toBeNull();
+  });
+
+  it("does not apply without a deadline", () => {
+    expect(getSlaState({ first_response_due_at: null, first_responded_at: null }, false, NOW)).toBeNull();
+  });
+});
+
+describe("getPriorityConfig", () => {
+  it("returns the matching option", () => {
+    expect(getPriorityConfig("urgent").label).toBe("Urgent");
+  });
+
+  it("falls back to normal for unknown values", () => {
+    expect(getPriorityConfig("unknown" as never).label).toBe("Normal");
+  });
+});
@@ -0,0 +1,38 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type RequestPriority = Database['public']['Enums']['request_priority'];
+
+export const PRIORITY_OPTIONS: { value: RequestPriority; label: string; className: string }[] = [
+  { value: 'urgent', label: 'Urgent', className: 'status-rejected' },
+  { value: 'high', label: 'High', className: 'status-warning' },
+  { value: 'normal', label: 'Normal', className: 'status-pending' },
+  { value: 'low', label: 'Low', className: 'status-pending' },
+];
+
+export const getPriorityConfig = (priority: RequestPriority) =>
+  PRIORITY_OPTIONS.find(p => p.value === priority) ?? PRIORITY_OPTIONS[2];
+
+// Requests due within this window are flagged before they actually breach
+const AT_RISK_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type SlaState = 'overdue' | 'at_risk' | 'on_track';
+
+export const SLA_STATE_CONFIG: Record<SlaState, { label: string; className: string }> = {
+  overdue: { label: 'Overdue', className: 'status-rejected' },
+  at_risk: { label: 'Due soon', className: 'status-warning' },
+  on_track: { label: 'On track', className: 'status-pending' },
+};
+
+/** Where a request stands against its first-response deadline; null once it no longer applies */
+export const getSlaState = (
+  request: { first_response_due_at: string | null; first_responded_at: string | null },
+  isClosed: boolean,
+  now = Date.now()
+): SlaState | null => {
+  if (!request.first_response_due_at || request.first_responded_at || isClosed) return null;
+
+  const remaining = new Date(request.first_response_due_at).getTime() - now;
+  if (remaining < 0) return 'overdue';
+  if (remaining < AT_RISK_WINDOW_MS) return 'at_risk';
+  return 'on_track';
+};
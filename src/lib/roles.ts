@@ -0,0 +1,4 @@
+import type { UserRole } from '@/lib/auth';
+
+// Admins and reviewers both work from the admin panel; only admins manage it
+export const isStaffRole = (role: UserRole | null) => role === 'admin' || role === 'reviewer';
@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
+import { isStaffRole } from '@/lib/roles';
 import { AdminDashboardLayout } from '@/components/admin/AdminDashboardLayout';
 import { AllRequests } from '@/components/admin/AllRequests';
 
@@ -12,14 +13,14 @@ export default function AdminDashboard() {
     if (!loading) {
       if (!user) {
         navigate('/admin/login');
-      } else if (role !== 'admin') {
-        // User is logged in but not an admin
+      } else if (!isStaffRole(role)) {
+        // User is logged in but not an admin or reviewer
         navigate('/dashboard');
       }
     }
   }, [user, loading, role, navigate]);
 
-  if (loading || !user || role !== 'admin') {
+  if (loading || !user || !isStaffRole(role)) {
     return (
       <div className="flex min-h-screen items-center justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
@@ -31,9 +32,13 @@ export default function AdminDashboard() {
     <AdminDashboardLayout>
       <div className="space-y-6">
         <div>
-          <h1 className="text-3xl font-display font-bold">Admin Dashboard</h1>
+          <h1 className="text-3xl font-display font-bold">
+            {role === 'admin' ? 'Admin Dashboard' : 'Review Dashboard'}
+          </h1>
           <p className="text-muted-foreground mt-1">
-            Manage and review all project requests
+            {role === 'admin'
+              ? 'Manage and review all project requests'
+              : 'Review, comment on and score the requests assigned to you'}
           </p>
         </div>
         <AllRequests />
@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
+import { isStaffRole } from '@/lib/roles';
 import { AdminAuthForm } from '@/components/auth/AdminAuthForm';
 
 export default function AdminLogin() {
@@ -8,7 +9,7 @@ export default function AdminLogin() {
   const navigate = useNavigate();
 
   useEffect(() => {
-    if (!loading && user && role === 'admin') {
+    if (!loading && user && isStaffRole(role)) {
       navigate('/admin/dashboard');
     }
   }, [user, loading, role, navigate]);
@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/lib/auth';
+import { AdminDashboardLayout } from '@/components/admin/AdminDashboardLayout';
+import { UserAccounts } from '@/components/admin/UserAccounts';
+
+export default function AdminUsers() {
+  const { user, loading, role } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!loading) {
+      if (!user) {
+        navigate('/admin/login');
+      } else if (role !== 'admin') {
+        navigate(role === 'reviewer' ? '/admin/dashboard' : '/dashboard');
+      }
+    }
+  }, [user, loading, role, navigate]);
+
+  if (loading || !user || role !== 'admin') {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <AdminDashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-display font-bold">Users</h1>
+          <p className="text-muted-foreground mt-1">
+            See who has an account, change roles and deactivate accounts
+          </p>
+        </div>
+        <UserAccounts />
+      </div>
+    </AdminDashboardLayout>
+  );
+}
@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
+import { isStaffRole } from '@/lib/roles';
 import { UserAuthForm } from '@/components/auth/UserAuthForm';
 import logo from '@/assets/logo.png';
 
@@ -10,7 +11,7 @@ export default function Auth() {
 
   useEffect(() => {
     if (!loading && user) {
-      if (role === 'admin') {
+      if (isStaffRole(role)) {
         navigate('/admin/dashboard');
       } else {
         navigate('/dashboard');
@@ -1,6 +1,7 @@
-import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
+import { isStaffRole } from '@/lib/roles';
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 import { RequestForm } from '@/components/dashboard/RequestForm';
 import { MyRequests } from '@/components/dashboard/MyRequests';
@@ -10,15 +11,48 @@ import { PlusCircle, FileText } from 'lucide-react';
 export default function Dashboard() {
   const { user, loading, role } = useAuth();
   const navigate = useNavigate();
+  const [activeTab, setActiveTab] = useState('my-requests');
+  const [draftId, setDraftId] = useState<string | null>(null);
+  // Bumped whenever the form should start over rather than keep its current draft
+  const [formKey, setFormKey] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedDraftId = searchParams.get('draft');
 
   useEffect(() => {
     if (!loading && !user) {
       navigate('/auth');
-    } else if (!loading && role === 'admin') {
+    } else if (!loading && isStaffRole(role)) {
       navigate('/admin/dashboard');
     }
   }, [user, loading, role, navigate]);
 
+  // Drafts started elsewhere (e.g. "Revise and resubmit") open straight into the form
+  useEffect(() => {
+    if (linkedDraftId) {
+      handleResumeDraft(linkedDraftId);
+      setSearchParams({}, { replace: true });
+    }
+  }, [linkedDraftId, setSearchParams]);
+
+  const handleResumeDraft = (id: string) => {
+    setDraftId(id);
+    setFormKey(k => k + 1);
+    setActiveTab('new-request');
+  };
+
+  const handleDraftDiscarded = (id: string) => {
+    if (id === draftId) {
+      setDraftId(null);
+      setFormKey(k => k + 1);
+    }
+  };
+
+  const handleSubmitted = () => {
+    setDraftId(null);
+    setFormKey(k => k + 1);
+    setActiveTab('my-requests');
+  };
+
   if (loading || !user) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -37,7 +71,7 @@ export default function Dashboard() {
           </p>
         </div>
 
-        <Tabs defaultValue="my-requests" className="w-full">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full max-w-md grid-cols-2">
             <TabsTrigger value="my-requests" className="gap-2">
               <FileText className="h-4 w-4" />
@@ -50,11 +84,16 @@ export default function Dashboard() {
           </TabsList>
           
           <TabsContent value="my-requests" className="mt-6">
-            <MyRequests />
+            <MyRequests onResumeDraft={handleResumeDraft} onDraftDiscarded={handleDraftDiscarded} />
           </TabsContent>
           
           <TabsContent value="new-request" className="mt-6">
-            <RequestForm />
+            <RequestForm
+              key={formKey}
+              draftId={draftId}
+              onDraftCreated={setDraftId}
+              onSubmitted={handleSubmitted}
+            />
           </TabsContent>
         </Tabs>
       </div>
@@ -1,14 +1,22 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 import { FileUpload } from '@/components/dashboard/FileUpload';
 import { AttachmentList } from '@/components/dashboard/AttachmentList';
+import { RequestTimeline } from '@/components/dashboard/RequestTimeline';
+import { CommentThread } from '@/components/dashboard/CommentThread';
+import { RequestFormFields } from '@/components/dashboard/RequestFormFields';
+import { WithdrawRequestDialog } from '@/components/dashboard/WithdrawRequestDialog';
+import { DecisionRecordButton } from '@/components/dashboard/DecisionRecordButton';
+import { fromRequestRow, toRequestRow, type RequestFormData } from '@/lib/request-form';
+import { useRequestWorkflow } from '@/hooks/use-request-workflow';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { 
   ArrowLeft, 
@@ -16,7 +24,12 @@ import {
   Clock, 
   MessageSquare, 
   Paperclip,
-  AlertCircle
+  AlertCircle,
+  History,
+  Pencil,
+  RotateCcw,
+  ArrowRight,
+  Undo2
 } from 'lucide-react';
 
 interface ProjectRequest {
@@ -28,26 +41,19 @@ interface ProjectRequest {
   expected_outcomes: string;
   estimated_duration: string | null;
   key_dependencies: string | null;
-  confidentiality_level: string;
+  confidentiality_level: 'public' | 'internal' | 'restricted';
   status: string;
   created_at: string;
   user_id: string;
+  resubmission_of: string | null;
 }
 
-interface Comment {
+interface LinkedRequest {
   id: string;
-  comment: string;
-  created_at: string;
-  admin_name?: string;
+  title: string;
+  status: string;
 }
 
-const statusConfig: Record<string, { label: string; className: string }> = {
-  pending: { label: 'Pending', className: 'status-pending' },
-  in_review: { label: 'In Review', className: 'status-in-review' },
-  approved: { label: 'Approved', className: 'status-approved' },
-  rejected: { label: 'Rejected', className: 'status-rejected' },
-};
-
 const typeLabels: Record<string, string> = {
   'research': 'Research',
   'threat-intelligence': 'Threat Intelligence',
@@ -62,9 +68,17 @@ export default function RequestDetail() {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const [request, setRequest] = useState<ProjectRequest | null>(null);
-  const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(true);
   const [attachmentRefreshKey, setAttachmentRefreshKey] = useState(0);
+  const [timelineRefreshKey, setTimelineRefreshKey] = useState(0);
+  const [editData, setEditData] = useState<RequestFormData | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [previousRequest, setPreviousRequest] = useState<LinkedRequest | null>(null);
+  const [resubmission, setResubmission] = useState<LinkedRequest | null>(null);
+  const [resubmitting, setResubmitting] = useState(false);
+  const [withdrawOpen, setWithdrawOpen] = useState(false);
+  const [withdrawing, setWithdrawing] = useState(false);
+  const { getStatusConfig, getNextTransitions } = useRequestWorkflow();
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -72,14 +86,27 @@ export default function RequestDetail() {
     }
   }, [user, authLoading, navigate]);
 
-  useEffect(() => {
-    if (id && user) {
-      fetchRequest();
-      fetchComments();
-    }
-  }, [id, user]);
+  const fetchLinkedRequests = useCallback(async (requestId: string, resubmissionOf: string | null) => {
+    const [previousResult, resubmissionResult] = await Promise.all([
+      resubmissionOf
+        ? supabase
+            .from('project_requests')
+            .select('id, title, status')
+            .eq('id', resubmissionOf)
+            .maybeSingle()
+        : Promise.resolve({ data: null }),
+      supabase
+        .from('project_requests')
+        .select('id, title, status')
+        .eq('resubmission_of', requestId)
+        .maybeSingle(),
+    ]);
+
+    setPreviousRequest(previousResult.data);
+    setResubmission(resubmissionResult.data);
+  }, []);
 
-  const fetchRequest = async () => {
+  const fetchRequest = useCallback(async () => {
     if (!id) return;
     
     const { data, error } = await supabase
@@ -93,37 +120,145 @@ export default function RequestDetail() {
       navigate('/dashboard');
     } else {
       setRequest(data);
+      fetchLinkedRequests(data.id, data.resubmission_of);
     }
     setLoading(false);
+  }, [id, navigate, fetchLinkedRequests]);
+
+  useEffect(() => {
+    if (!id || !user) return;
+
+    fetchRequest();
+
+    // Reflect status changes made by admins without a reload
+    const channel = supabase
+      .channel(`request-${id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'project_requests', filter: `id=eq.${id}` },
+        (payload) => {
+          setRequest(prev => (prev ? { ...prev, ...(payload.new as ProjectRequest) } : prev));
+          setTimelineRefreshKey(k => k + 1);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, user, fetchRequest]);
+
+  // Starts a draft pre-filled from this rejected request, with copies of its
+  // attachments, and hands it to the dashboard form to finish and submit
+  const handleResubmit = async () => {
+    if (!request || !user) return;
+
+    setResubmitting(true);
+
+    const { data: draft, error } = await supabase
+      .from('project_requests')
+      .insert({
+        ...toRequestRow(fromRequestRow(request)),
+        user_id: user.id,
+        status: 'draft',
+        resubmission_of: request.id,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      toast.error('Failed to start a revision: ' + error.message);
+      setResubmitting(false);
+      return;
+    }
+
+    const { data: attachments } = await supabase
+      .from('request_attachments')
+      .select('*')
+      .eq('request_id', request.id);
+
+    for (const attachment of attachments || []) {
+      const filePath = `${user.id}/${draft.id}/${attachment.file_path.split('/').pop()}`;
+
+      const { error: copyError } = await supabase.storage
+        .from('request-attachments')
+        .copy(attachment.file_path, filePath);
+
+      if (copyError) {
+        toast.error(`Failed to carry over ${attachment.file_name}: ${copyError.message}`);
+        continue;
+      }
+
+      const { error: dbError } = await supabase
+        .from('request_attachments')
+        .insert({
+          request_id: draft.id,
+          user_id: user.id,
+          file_name: attachment.file_name,
+          file_path: filePath,
+          file_size: attachment.file_size,
+          file_type: attachment.file_type,
+        });
+
+      if (dbError) {
+        toast.error(`Failed to carry over ${attachment.file_name}: ${dbError.message}`);
+        await supabase.storage.from('request-attachments').remove([filePath]);
+      }
+    }
+
+    navigate(`/dashboard?draft=${draft.id}`);
   };
 
-  const fetchComments = async () => {
-    if (!id) return;
-    
+  const handleWithdraw = async (reason: string) => {
+    if (!request) return;
+
+    setWithdrawing(true);
+    const { data, error } = await supabase.rpc('transition_request_status', {
+      _request_id: request.id,
+      _to_status: 'withdrawn',
+      _comment: reason || undefined,
+    });
+
+    if (error) {
+      toast.error('Failed to withdraw request: ' + error.message);
+    } else {
+      toast.success('Request withdrawn');
+      setRequest(prev => (prev ? { ...prev, ...data } : prev));
+      setEditData(null);
+      setWithdrawOpen(false);
+      setTimelineRefreshKey(k => k + 1);
+    }
+    setWithdrawing(false);
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!request || !editData) return;
+
+    if (editData.projectTypes.length === 0) {
+      toast.error('Please select at least one project type');
+      return;
+    }
+
+    setSavingEdit(true);
+
+    // RLS only lets this through while the request is still pending
     const { data, error } = await supabase
-      .from('comments')
-      .select('id, comment, created_at, admin_id')
-      .eq('request_id', id)
-      .order('created_at', { ascending: true });
+      .from('project_requests')
+      .update(toRequestRow(editData))
+      .eq('id', request.id)
+      .select('*')
+      .single();
 
     if (error) {
-      console.error('Error fetching comments:', error);
+      toast.error('Failed to save changes: ' + error.message);
     } else {
-      const commentsWithNames = await Promise.all(
-        (data || []).map(async (comment) => {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('full_name')
-            .eq('user_id', comment.admin_id)
-            .single();
-          return {
-            ...comment,
-            admin_name: profile?.full_name || 'Admin',
-          };
-        })
-      );
-      setComments(commentsWithNames);
+      toast.success('Request updated. Reviewers will see what changed.');
+      setRequest(data);
+      setEditData(null);
+      setTimelineRefreshKey(k => k + 1);
     }
+    setSavingEdit(false);
   };
 
   if (authLoading || loading) {
@@ -151,8 +286,13 @@ export default function RequestDetail() {
     );
   }
 
-  const status = statusConfig[request.status] || statusConfig.pending;
+  const status = getStatusConfig(request.status);
   const canUpload = request.status === 'pending';
+  const canEdit = canUpload && request.user_id === user?.id;
+  const canResubmit = request.status === 'rejected' && request.user_id === user?.id;
+  const canWithdraw =
+    request.user_id === user?.id &&
+    getNextTransitions(request.status, 'owner').some(t => t.to_status === 'withdrawn');
 
   return (
     <DashboardLayout>
@@ -172,8 +312,70 @@ export default function RequestDetail() {
             </div>
           </div>
           <Badge className={status.className}>{status.label}</Badge>
+          <DecisionRecordButton requestId={request.id} status={request.status} />
+          {canWithdraw && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-destructive hover:text-destructive"
+              onClick={() => setWithdrawOpen(true)}
+            >
+              <Undo2 className="h-4 w-4" />
+              Withdraw
+            </Button>
+          )}
         </div>
 
+        {/* Revision links */}
+        {previousRequest && (
+          <div className="flex items-center gap-2 rounded-lg border bg-muted/30 p-3 text-sm">
+            <RotateCcw className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-muted-foreground">
+              Revised and resubmitted from{' '}
+              <Link to={`/request/${previousRequest.id}`} className="font-medium text-foreground underline-offset-4 hover:underline">
+                {previousRequest.title}
+              </Link>
+            </span>
+          </div>
+        )}
+
+        {canResubmit && (
+          <Card className="border-destructive/30 bg-destructive/5">
+            <CardContent className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-sm">
+                {resubmission
+                  ? resubmission.status === 'draft'
+                    ? 'You have started revising this request but have not submitted it yet.'
+                    : 'You have already resubmitted a revised version of this request.'
+                  : 'This request was rejected. Address the feedback below and resubmit it as a new request.'}
+              </p>
+              {resubmission ? (
+                <Link
+                  to={
+                    resubmission.status === 'draft'
+                      ? `/dashboard?draft=${resubmission.id}`
+                      : `/request/${resubmission.id}`
+                  }
+                >
+                  <Button variant="outline" size="sm" className="gap-2 shrink-0">
+                    {resubmission.status === 'draft' ? 'Continue Revision' : 'View Resubmission'}
+                    <ArrowRight className="h-4 w-4" />
+                  </Button>
+                </Link>
+              ) : (
+                <Button size="sm" className="gap-2 shrink-0" onClick={handleResubmit} disabled={resubmitting}>
+                  {resubmitting ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4" />
+                  )}
+                  Revise and Resubmit
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Project Types */}
         <div className="flex flex-wrap gap-2">
           {request.project_types.map((type) => (
@@ -191,51 +393,87 @@ export default function RequestDetail() {
           <div className="lg:col-span-2 space-y-6">
             {/* Request Details */}
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle className="text-lg">Request Details</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {request.strategic_alignment && (
-                  <div>
-                    <h4 className="font-semibold text-sm mb-2">Strategic Alignment</h4>
-                    <p className="text-sm text-muted-foreground">
-                      {request.strategic_alignment}
-                    </p>
-                  </div>
+                {canEdit && !editData && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => setEditData(fromRequestRow(request))}
+                  >
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                  </Button>
                 )}
+              </CardHeader>
+              {editData && canEdit ? (
+                <CardContent>
+                  <form onSubmit={handleSaveEdit} className="space-y-6">
+                    <RequestFormFields
+                      value={editData}
+                      onChange={(changes) => setEditData(prev => (prev ? { ...prev, ...changes } : prev))}
+                    />
+                    <div className="flex gap-2">
+                      <Button type="submit" disabled={savingEdit}>
+                        {savingEdit && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save Changes
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => setEditData(null)}
+                        disabled={savingEdit}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              ) : (
+                <CardContent className="space-y-6">
+                  {request.strategic_alignment && (
+                    <div>
+                      <h4 className="font-semibold text-sm mb-2">Strategic Alignment</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {request.strategic_alignment}
+                      </p>
+                    </div>
+                  )}
 
-                <div>
-                  <h4 className="font-semibold text-sm mb-2">Problem Statement</h4>
-                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                    {request.problem_statement}
-                  </p>
-                </div>
-
-                <div>
-                  <h4 className="font-semibold text-sm mb-2">Expected Outcomes</h4>
-                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                    {request.expected_outcomes}
-                  </p>
-                </div>
-
-                {request.estimated_duration && (
                   <div>
-                    <h4 className="font-semibold text-sm mb-2">Estimated Duration</h4>
-                    <p className="text-sm text-muted-foreground">
-                      {request.estimated_duration}
+                    <h4 className="font-semibold text-sm mb-2">Problem Statement</h4>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                      {request.problem_statement}
                     </p>
                   </div>
-                )}
 
-                {request.key_dependencies && (
                   <div>
-                    <h4 className="font-semibold text-sm mb-2">Key Dependencies</h4>
+                    <h4 className="font-semibold text-sm mb-2">Expected Outcomes</h4>
                     <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                      {request.key_dependencies}
+                      {request.expected_outcomes}
                     </p>
                   </div>
-                )}
-              </CardContent>
+
+                  {request.estimated_duration && (
+                    <div>
+                      <h4 className="font-semibold text-sm mb-2">Estimated Duration</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {request.estimated_duration}
+                      </p>
+                    </div>
+                  )}
+
+                  {request.key_dependencies && (
+                    <div>
+                      <h4 className="font-semibold text-sm mb-2">Key Dependencies</h4>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                        {request.key_dependencies}
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              )}
             </Card>
 
             {/* Attachments */}
@@ -270,50 +508,48 @@ export default function RequestDetail() {
                 )}
               </CardContent>
             </Card>
+
+            {/* Timeline */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RequestTimeline requestId={request.id} refreshKey={attachmentRefreshKey + timelineRefreshKey} />
+              </CardContent>
+            </Card>
           </div>
 
-          {/* Sidebar - Comments */}
+          {/* Sidebar - Discussion */}
           <div className="lg:col-span-1">
             <Card className="sticky top-24">
               <CardHeader>
                 <CardTitle className="text-lg flex items-center gap-2">
                   <MessageSquare className="h-5 w-5" />
-                  Admin Comments
-                  {comments.length > 0 && (
-                    <span className="ml-auto text-sm font-normal text-muted-foreground">
-                      {comments.length}
-                    </span>
-                  )}
+                  Discussion
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {comments.length === 0 ? (
-                  <p className="text-sm text-muted-foreground text-center py-6">
-                    No comments yet. You'll receive a notification when an admin responds.
-                  </p>
-                ) : (
-                  <div className="space-y-4 max-h-[60vh] overflow-y-auto">
-                    {comments.map((comment) => (
-                      <div
-                        key={comment.id}
-                        className="rounded-lg bg-muted/50 p-4"
-                      >
-                        <div className="flex items-center justify-between mb-2">
-                          <span className="font-medium text-sm">{comment.admin_name}</span>
-                          <span className="text-xs text-muted-foreground">
-                            {format(new Date(comment.created_at), 'MMM d')}
-                          </span>
-                        </div>
-                        <p className="text-sm whitespace-pre-wrap">{comment.comment}</p>
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <CommentThread
+                  requestId={request.id}
+                  compact
+                  onCommentAdded={() => setTimelineRefreshKey(k => k + 1)}
+                />
               </CardContent>
             </Card>
           </div>
         </div>
       </div>
+
+      <WithdrawRequestDialog
+        open={withdrawOpen}
+        submitting={withdrawing}
+        onConfirm={handleWithdraw}
+        onCancel={() => setWithdrawOpen(false)}
+      />
     </DashboardLayout>
   );
 }
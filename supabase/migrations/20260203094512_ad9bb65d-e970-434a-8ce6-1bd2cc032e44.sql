@@ -0,0 +1,123 @@
+-- Admin invitations: admins can only be provisioned through a single-use, expiring token
+CREATE TABLE public.admin_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + interval '7 days'),
+  last_sent_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  redeemed_at TIMESTAMP WITH TIME ZONE,
+  redeemed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_admin_invitations_email ON public.admin_invitations(lower(email));
+
+ALTER TABLE public.admin_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invitations"
+  ON public.admin_invitations FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create invitations"
+  ON public.admin_invitations FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = invited_by);
+
+CREATE POLICY "Admins can update invitations"
+  ON public.admin_invitations FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Look up the email an invitation was issued to, so the signup form can be pre-filled.
+-- Only returns a row while the invitation is still usable.
+CREATE OR REPLACE FUNCTION public.get_admin_invitation(_token UUID)
+RETURNS TABLE (email TEXT, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT email, expires_at
+  FROM public.admin_invitations
+  WHERE token = _token
+    AND redeemed_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > now()
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_invitation(UUID) TO anon, authenticated;
+
+-- Re-send an invitation: rotate the token (invalidating any earlier link) and extend the expiry
+CREATE OR REPLACE FUNCTION public.reissue_admin_invitation(_invitation_id UUID)
+RETURNS public.admin_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.admin_invitations;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can re-send invitations';
+  END IF;
+
+  UPDATE public.admin_invitations
+  SET token = gen_random_uuid(),
+      expires_at = now() + interval '7 days',
+      last_sent_at = now()
+  WHERE id = _invitation_id
+    AND redeemed_at IS NULL
+    AND revoked_at IS NULL
+  RETURNING * INTO invitation;
+
+  IF invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation has already been redeemed or revoked';
+  END IF;
+
+  RETURN invitation;
+END;
+$$;
+
+-- Only grant admin when the signup presents a valid, unredeemed invitation for the same email
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  invite_token UUID;
+  invitation_id UUID;
+BEGIN
+  BEGIN
+    invite_token := NULLIF(NEW.raw_user_meta_data->>'admin_invite_token', '')::uuid;
+  EXCEPTION WHEN invalid_text_representation THEN
+    invite_token := NULL;
+  END;
+
+  INSERT INTO public.profiles (user_id, full_name, email)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.email),
+    NEW.email
+  );
+
+  IF invite_token IS NOT NULL THEN
+    UPDATE public.admin_invitations
+    SET redeemed_at = now(),
+        redeemed_by = NEW.id
+    WHERE token = invite_token
+      AND lower(email) = lower(NEW.email)
+      AND redeemed_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > now()
+    RETURNING id INTO invitation_id;
+  END IF;
+
+  -- Assign role based on whether a valid invitation was redeemed
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, CASE WHEN invitation_id IS NOT NULL THEN 'admin'::app_role ELSE 'user'::app_role END);
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,202 @@
+-- Configurable request status workflow
+-- Statuses and the transitions between them are rows rather than a fixed enum,
+-- so new steps can be added without a schema change.
+CREATE TABLE public.request_statuses (
+  key TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  tone TEXT NOT NULL DEFAULT 'neutral' CHECK (tone IN ('neutral', 'info', 'warning', 'success', 'danger')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_initial BOOLEAN NOT NULL DEFAULT false,
+  is_terminal BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+INSERT INTO public.request_statuses (key, label, description, tone, sort_order, is_initial, is_terminal) VALUES
+  ('pending', 'Pending', 'Submitted and waiting for an administrator to pick it up', 'neutral', 10, true, false),
+  ('in_review', 'In Review', 'Being assessed by an administrator', 'info', 20, false, false),
+  ('needs_info', 'Needs Info', 'Waiting on the requester to provide more information', 'warning', 30, false, false),
+  ('on_hold', 'On Hold', 'Paused pending an external dependency or decision', 'warning', 40, false, false),
+  ('approved', 'Approved', 'Accepted for delivery', 'success', 50, false, true),
+  ('rejected', 'Rejected', 'Declined by an administrator', 'danger', 60, false, true),
+  ('withdrawn', 'Withdrawn', 'Retracted by the requester', 'neutral', 70, false, true);
+
+CREATE TABLE public.request_status_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_status TEXT REFERENCES public.request_statuses(key) ON UPDATE CASCADE ON DELETE CASCADE NOT NULL,
+  to_status TEXT REFERENCES public.request_statuses(key) ON UPDATE CASCADE ON DELETE CASCADE NOT NULL,
+  -- 'owner' is the requester who submitted the request; any other value is an app_role
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('owner', 'admin')),
+  requires_comment BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE(from_status, to_status, actor_role)
+);
+
+INSERT INTO public.request_status_transitions (from_status, to_status, actor_role, requires_comment) VALUES
+  ('pending', 'in_review', 'admin', false),
+  ('pending', 'rejected', 'admin', true),
+  ('in_review', 'needs_info', 'admin', true),
+  ('in_review', 'on_hold', 'admin', true),
+  ('in_review', 'approved', 'admin', false),
+  ('in_review', 'rejected', 'admin', true),
+  ('needs_info', 'in_review', 'admin', false),
+  ('needs_info', 'rejected', 'admin', true),
+  ('on_hold', 'in_review', 'admin', false),
+  ('on_hold', 'rejected', 'admin', true),
+  ('needs_info', 'in_review', 'owner', false),
+  ('pending', 'withdrawn', 'owner', false),
+  ('in_review', 'withdrawn', 'owner', false),
+  ('needs_info', 'withdrawn', 'owner', false),
+  ('on_hold', 'withdrawn', 'owner', false);
+
+ALTER TABLE public.request_statuses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.request_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view statuses"
+  ON public.request_statuses FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage statuses"
+  ON public.request_statuses FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view transitions"
+  ON public.request_status_transitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage transitions"
+  ON public.request_status_transitions FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Move project_requests.status off the enum. Policies that reference the column
+-- have to be dropped while its type changes and are recreated unchanged below.
+DROP POLICY "Users can update own requests" ON public.project_requests;
+DROP POLICY "Users can delete own pending requests" ON public.project_requests;
+DROP POLICY "Users can delete own attachments on pending requests" ON public.request_attachments;
+
+ALTER TABLE public.project_requests ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.project_requests ALTER COLUMN status TYPE TEXT USING status::text;
+ALTER TABLE public.project_requests ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE public.project_requests
+  ADD CONSTRAINT project_requests_status_fkey
+  FOREIGN KEY (status) REFERENCES public.request_statuses(key) ON UPDATE CASCADE;
+
+DROP TYPE public.request_status;
+
+CREATE POLICY "Users can update own requests"
+  ON public.project_requests FOR UPDATE
+  USING (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY "Users can delete own pending requests"
+  ON public.project_requests FOR DELETE
+  USING (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY "Users can delete own attachments on pending requests"
+  ON public.request_attachments FOR DELETE
+  USING (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.project_requests
+      WHERE id = request_id AND status = 'pending'
+    )
+  );
+
+-- Reject any status change that is not a configured transition for the acting user
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transition public.request_status_transitions;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.request_statuses WHERE key = NEW.status AND is_initial
+    ) THEN
+      RAISE EXCEPTION 'Requests cannot be created with status "%"', NEW.status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Service-role and SQL console updates have no end user and are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t.* INTO transition
+  FROM public.request_status_transitions t
+  WHERE t.from_status = OLD.status
+    AND t.to_status = NEW.status
+    AND (
+      (t.actor_role = 'owner' AND OLD.user_id = auth.uid())
+      OR (t.actor_role <> 'owner' AND public.has_role(auth.uid(), t.actor_role::app_role))
+    )
+  ORDER BY t.requires_comment
+  LIMIT 1;
+
+  IF transition.id IS NULL THEN
+    RAISE EXCEPTION 'Moving a request from "%" to "%" is not allowed', OLD.status, NEW.status;
+  END IF;
+
+  IF transition.requires_comment
+    AND COALESCE(current_setting('app.transition_comment', true), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required to move a request to "%"', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_project_requests_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_status_transition();
+
+-- Single entry point for status changes, so a mandatory comment can travel with the update
+CREATE OR REPLACE FUNCTION public.transition_request_status(
+  _request_id UUID,
+  _to_status TEXT,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS public.project_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trimmed_comment TEXT := NULLIF(trim(COALESCE(_comment, '')), '');
+  updated_request public.project_requests;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Visible to enforce_status_transition for the rest of this transaction
+  PERFORM set_config('app.transition_comment', COALESCE(trimmed_comment, ''), true);
+
+  UPDATE public.project_requests
+  SET status = _to_status
+  WHERE id = _request_id
+  RETURNING * INTO updated_request;
+
+  IF updated_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF trimmed_comment IS NOT NULL THEN
+    INSERT INTO public.comments (request_id, admin_id, comment)
+    VALUES (_request_id, auth.uid(), trimmed_comment);
+  END IF;
+
+  RETURN updated_request;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- Audit trail of every status a request has been in
+CREATE TABLE public.request_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID REFERENCES public.project_requests(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT REFERENCES public.request_statuses(key) ON UPDATE CASCADE,
+  to_status TEXT REFERENCES public.request_statuses(key) ON UPDATE CASCADE NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_request_status_history_request_id ON public.request_status_history(request_id, created_at);
+
+ALTER TABLE public.request_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view status history on own requests"
+  ON public.request_status_history FOR SELECT
+  USING (public.get_request_owner(request_id) = auth.uid());
+
+CREATE POLICY "Admins can view all status history"
+  ON public.request_status_history FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- No insert/update/delete policies: rows are only written by the trigger below
+
+CREATE OR REPLACE FUNCTION public.record_status_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.request_status_history (request_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, NEW.user_id);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.request_status_history (request_id, from_status, to_status, changed_by, comment)
+    VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      auth.uid(),
+      -- Set by transition_request_status when the change carries a comment
+      NULLIF(current_setting('app.transition_comment', true), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_project_requests_status_history
+  AFTER INSERT OR UPDATE OF status ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.record_status_history();
+
+-- Backfill: every existing request was submitted as pending; anything that has
+-- moved on since gets a single entry at its last update (the actor is unknown)
+INSERT INTO public.request_status_history (request_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, 'pending', user_id, created_at
+FROM public.project_requests;
+
+INSERT INTO public.request_status_history (request_id, from_status, to_status, changed_by, created_at)
+SELECT id, 'pending', status, NULL, updated_at
+FROM public.project_requests
+WHERE status <> 'pending';
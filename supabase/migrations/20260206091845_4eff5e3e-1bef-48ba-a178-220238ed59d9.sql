@@ -0,0 +1,107 @@
+-- Notifications carry a type so the client can render each kind of event differently
+CREATE TYPE public.notification_type AS ENUM ('comment', 'status_change');
+
+ALTER TABLE public.notifications
+  ADD COLUMN type notification_type NOT NULL DEFAULT 'comment',
+  ADD COLUMN actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Existing rows were all created by handle_new_comment
+UPDATE public.notifications n
+SET actor_id = c.admin_id
+FROM public.comments c
+WHERE n.comment_id = c.id;
+
+CREATE OR REPLACE FUNCTION public.handle_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_owner_id UUID;
+  admin_name TEXT;
+  request_title TEXT;
+BEGIN
+  -- A comment left with a status change is already covered by that notification
+  IF NEW.comment = current_setting('app.transition_comment', true) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get the request owner
+  SELECT user_id, title INTO request_owner_id, request_title
+  FROM public.project_requests
+  WHERE id = NEW.request_id;
+
+  -- Get admin name
+  SELECT full_name INTO admin_name
+  FROM public.profiles
+  WHERE user_id = NEW.admin_id;
+
+  -- Create notification for the request owner
+  INSERT INTO public.notifications (user_id, request_id, comment_id, type, actor_id, message)
+  VALUES (
+    request_owner_id,
+    NEW.request_id,
+    NEW.id,
+    'comment',
+    NEW.admin_id,
+    'Admin ' || COALESCE(admin_name, 'Unknown') || ' commented on your request: "' || request_title || '"'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Notify the requester whenever someone else moves their request to a new status
+CREATE OR REPLACE FUNCTION public.handle_status_change_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_owner_id UUID;
+  request_title TEXT;
+  actor_name TEXT;
+  from_label TEXT;
+  to_label TEXT;
+BEGIN
+  -- The initial submission is not a change worth notifying about
+  IF NEW.from_status IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id, title INTO request_owner_id, request_title
+  FROM public.project_requests
+  WHERE id = NEW.request_id;
+
+  -- Requesters don't need to be told about their own actions (e.g. withdrawing)
+  IF NEW.changed_by IS NOT DISTINCT FROM request_owner_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO actor_name FROM public.profiles WHERE user_id = NEW.changed_by;
+  SELECT label INTO from_label FROM public.request_statuses WHERE key = NEW.from_status;
+  SELECT label INTO to_label FROM public.request_statuses WHERE key = NEW.to_status;
+
+  INSERT INTO public.notifications (user_id, request_id, type, actor_id, metadata, message)
+  VALUES (
+    request_owner_id,
+    NEW.request_id,
+    'status_change',
+    NEW.changed_by,
+    jsonb_build_object('from_status', NEW.from_status, 'to_status', NEW.to_status),
+    CASE
+      WHEN NEW.changed_by IS NULL THEN 'Your request "' || request_title || '" was moved from '
+      ELSE 'Admin ' || COALESCE(actor_name, 'Unknown') || ' moved your request "' || request_title || '" from '
+    END || COALESCE(from_label, NEW.from_status) || ' to ' || COALESCE(to_label, NEW.to_status)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_status_history_created
+  AFTER INSERT ON public.request_status_history
+  FOR EACH ROW EXECUTE FUNCTION public.handle_status_change_notification();
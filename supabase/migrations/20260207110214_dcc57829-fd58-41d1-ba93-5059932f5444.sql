@@ -0,0 +1,180 @@
+-- Comments become a two-way thread between the request owner and admins
+ALTER TABLE public.comments RENAME COLUMN admin_id TO author_id;
+
+ALTER TABLE public.comments
+  ADD COLUMN author_role TEXT NOT NULL DEFAULT 'admin' CHECK (author_role IN ('requester', 'admin'));
+
+UPDATE public.comments c
+SET author_role = 'requester'
+FROM public.project_requests r
+WHERE c.request_id = r.id AND c.author_id = r.user_id;
+
+-- The role is derived server-side so it cannot be spoofed by the client
+CREATE OR REPLACE FUNCTION public.set_comment_author_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_role := CASE
+    WHEN public.get_request_owner(NEW.request_id) = NEW.author_id THEN 'requester'
+    ELSE 'admin'
+  END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_comments_author_role
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.set_comment_author_role();
+
+-- Authors may only edit the text: edits must not move a comment to another
+-- request or change who appears to have written it
+CREATE OR REPLACE FUNCTION public.protect_comment_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.request_id := OLD.request_id;
+  NEW.author_id := OLD.author_id;
+  NEW.author_role := OLD.author_role;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_comments_columns
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.protect_comment_columns();
+
+-- Comments RLS policies
+DROP POLICY "Admins can insert comments" ON public.comments;
+DROP POLICY "Admins can update own comments" ON public.comments;
+DROP POLICY "Admins can delete own comments" ON public.comments;
+
+CREATE POLICY "Admins can insert comments"
+  ON public.comments FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = author_id);
+
+CREATE POLICY "Users can comment on own requests"
+  ON public.comments FOR INSERT
+  WITH CHECK (auth.uid() = author_id AND public.get_request_owner(request_id) = auth.uid());
+
+CREATE POLICY "Authors can update own comments"
+  ON public.comments FOR UPDATE
+  USING (auth.uid() = author_id)
+  WITH CHECK (auth.uid() = author_id);
+
+CREATE POLICY "Authors can delete own comments"
+  ON public.comments FOR DELETE
+  USING (auth.uid() = author_id);
+
+-- Notify the other party: the owner for admin comments, the admins taking part
+-- in the request (or every admin if nobody has picked it up yet) for owner replies
+CREATE OR REPLACE FUNCTION public.handle_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_owner_id UUID;
+  author_name TEXT;
+  request_title TEXT;
+BEGIN
+  -- A comment left with a status change is already covered by that notification
+  IF NEW.comment = current_setting('app.transition_comment', true) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id, title INTO request_owner_id, request_title
+  FROM public.project_requests
+  WHERE id = NEW.request_id;
+
+  SELECT full_name INTO author_name
+  FROM public.profiles
+  WHERE user_id = NEW.author_id;
+
+  IF NEW.author_role = 'admin' THEN
+    INSERT INTO public.notifications (user_id, request_id, comment_id, type, actor_id, message)
+    VALUES (
+      request_owner_id,
+      NEW.request_id,
+      NEW.id,
+      'comment',
+      NEW.author_id,
+      'Admin ' || COALESCE(author_name, 'Unknown') || ' commented on your request: "' || request_title || '"'
+    );
+  ELSE
+    WITH participants AS (
+      SELECT author_id AS user_id
+      FROM public.comments
+      WHERE request_id = NEW.request_id AND author_role = 'admin'
+      UNION
+      SELECT changed_by
+      FROM public.request_status_history
+      WHERE request_id = NEW.request_id AND changed_by IS NOT NULL AND changed_by <> request_owner_id
+    ),
+    recipients AS (
+      SELECT user_id FROM participants
+      WHERE public.has_role(user_id, 'admin')
+      UNION
+      SELECT user_id FROM public.user_roles
+      WHERE role = 'admin' AND NOT EXISTS (SELECT 1 FROM participants)
+    )
+    INSERT INTO public.notifications (user_id, request_id, comment_id, type, actor_id, message)
+    SELECT
+      recipients.user_id,
+      NEW.request_id,
+      NEW.id,
+      'comment',
+      NEW.author_id,
+      COALESCE(author_name, 'The requester') || ' replied on "' || request_title || '"'
+    FROM recipients
+    WHERE recipients.user_id <> NEW.author_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Keep the status RPC in step with the renamed column
+CREATE OR REPLACE FUNCTION public.transition_request_status(
+  _request_id UUID,
+  _to_status TEXT,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS public.project_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trimmed_comment TEXT := NULLIF(trim(COALESCE(_comment, '')), '');
+  updated_request public.project_requests;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Visible to enforce_status_transition for the rest of this transaction
+  PERFORM set_config('app.transition_comment', COALESCE(trimmed_comment, ''), true);
+
+  UPDATE public.project_requests
+  SET status = _to_status
+  WHERE id = _request_id
+  RETURNING * INTO updated_request;
+
+  IF updated_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF trimmed_comment IS NOT NULL THEN
+    INSERT INTO public.comments (request_id, author_id, comment)
+    VALUES (_request_id, auth.uid(), trimmed_comment);
+  END IF;
+
+  RETURN updated_request;
+END;
+$$;
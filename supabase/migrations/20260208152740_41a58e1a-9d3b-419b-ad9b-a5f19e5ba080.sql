@@ -0,0 +1,44 @@
+-- Internal notes: admin-only comments that the request owner never sees
+ALTER TABLE public.comments
+  ADD COLUMN is_internal BOOLEAN NOT NULL DEFAULT false;
+
+DROP POLICY "Users can view comments on own requests" ON public.comments;
+DROP POLICY "Users can comment on own requests" ON public.comments;
+
+CREATE POLICY "Users can view comments on own requests"
+  ON public.comments FOR SELECT
+  USING (public.get_request_owner(request_id) = auth.uid() AND NOT is_internal);
+
+CREATE POLICY "Users can comment on own requests"
+  ON public.comments FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_id
+    AND public.get_request_owner(request_id) = auth.uid()
+    AND NOT is_internal
+  );
+
+-- Only admins can turn a comment into an internal note or publish one
+CREATE OR REPLACE FUNCTION public.protect_comment_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.request_id := OLD.request_id;
+  NEW.author_id := OLD.author_id;
+  NEW.author_role := OLD.author_role;
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    NEW.is_internal := OLD.is_internal;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Internal notes must not notify anyone
+DROP TRIGGER on_comment_created ON public.comments;
+
+CREATE TRIGGER on_comment_created
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  WHEN (NOT NEW.is_internal)
+  EXECUTE FUNCTION public.handle_new_comment();
@@ -0,0 +1,4 @@
+-- Stream row changes to subscribed clients; Realtime applies each table's RLS per subscriber
+ALTER PUBLICATION supabase_realtime ADD TABLE public.project_requests;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
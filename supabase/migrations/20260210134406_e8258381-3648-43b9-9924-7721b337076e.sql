@@ -0,0 +1,39 @@
+-- Drafts: requests the owner is still writing. They are autosaved as real rows
+-- (so attachments can hang off them) but stay invisible to admins until submitted.
+INSERT INTO public.request_statuses (key, label, description, tone, sort_order, is_initial, is_terminal) VALUES
+  ('draft', 'Draft', 'Still being written by the requester and not yet submitted', 'neutral', 0, true, false);
+
+INSERT INTO public.request_status_transitions (from_status, to_status, actor_role, requires_comment) VALUES
+  ('draft', 'pending', 'owner', false);
+
+DROP POLICY "Admins can view all requests" ON public.project_requests;
+DROP POLICY "Admins can update any request" ON public.project_requests;
+DROP POLICY "Users can update own requests" ON public.project_requests;
+DROP POLICY "Users can delete own pending requests" ON public.project_requests;
+DROP POLICY "Users can delete own attachments on pending requests" ON public.request_attachments;
+
+CREATE POLICY "Admins can view all requests"
+  ON public.project_requests FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') AND status <> 'draft');
+
+CREATE POLICY "Admins can update any request"
+  ON public.project_requests FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin') AND status <> 'draft');
+
+CREATE POLICY "Users can update own requests"
+  ON public.project_requests FOR UPDATE
+  USING (auth.uid() = user_id AND status IN ('draft', 'pending'));
+
+CREATE POLICY "Users can delete own draft or pending requests"
+  ON public.project_requests FOR DELETE
+  USING (auth.uid() = user_id AND status IN ('draft', 'pending'));
+
+CREATE POLICY "Users can delete own attachments on draft or pending requests"
+  ON public.request_attachments FOR DELETE
+  USING (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.project_requests
+      WHERE id = request_id AND status IN ('draft', 'pending')
+    )
+  );
@@ -0,0 +1,113 @@
+-- Every submitted version of a request, so admins can see what a requester changed
+CREATE TABLE public.request_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID REFERENCES public.project_requests(id) ON DELETE CASCADE NOT NULL,
+  revision_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  project_types TEXT[] NOT NULL DEFAULT '{}',
+  strategic_alignment TEXT,
+  problem_statement TEXT NOT NULL,
+  expected_outcomes TEXT NOT NULL,
+  estimated_duration TEXT,
+  key_dependencies TEXT,
+  confidentiality_level confidentiality_level NOT NULL,
+  edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (request_id, revision_number)
+);
+
+ALTER TABLE public.request_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of own requests"
+  ON public.request_revisions FOR SELECT
+  USING (public.get_request_owner(request_id) = auth.uid());
+
+CREATE POLICY "Admins can view all revisions"
+  ON public.request_revisions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- No insert/update/delete policies: rows are only written by the trigger below
+
+-- The latest revision each admin has looked at, to diff against on their next visit
+CREATE TABLE public.request_revision_views (
+  request_id UUID REFERENCES public.project_requests(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  revision_number INTEGER NOT NULL,
+  viewed_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (request_id, user_id)
+);
+
+ALTER TABLE public.request_revision_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view own revision views"
+  ON public.request_revision_views FOR SELECT
+  USING (auth.uid() = user_id AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert own revision views"
+  ON public.request_revision_views FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update own revision views"
+  ON public.request_revision_views FOR UPDATE
+  USING (auth.uid() = user_id AND public.has_role(auth.uid(), 'admin'));
+
+-- Snapshot the request when it is submitted and whenever its content changes
+-- afterwards. Draft autosaves are not revisions.
+CREATE OR REPLACE FUNCTION public.record_request_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status <> 'draft'
+    AND (NEW.title, NEW.project_types, NEW.strategic_alignment, NEW.problem_statement,
+         NEW.expected_outcomes, NEW.estimated_duration, NEW.key_dependencies, NEW.confidentiality_level)
+      IS NOT DISTINCT FROM
+        (OLD.title, OLD.project_types, OLD.strategic_alignment, OLD.problem_statement,
+         OLD.expected_outcomes, OLD.estimated_duration, OLD.key_dependencies, OLD.confidentiality_level)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.request_revisions (
+    request_id, revision_number, title, project_types, strategic_alignment, problem_statement,
+    expected_outcomes, estimated_duration, key_dependencies, confidentiality_level, edited_by
+  )
+  VALUES (
+    NEW.id,
+    COALESCE((SELECT MAX(revision_number) FROM public.request_revisions WHERE request_id = NEW.id), 0) + 1,
+    NEW.title,
+    NEW.project_types,
+    NEW.strategic_alignment,
+    NEW.problem_statement,
+    NEW.expected_outcomes,
+    NEW.estimated_duration,
+    NEW.key_dependencies,
+    NEW.confidentiality_level,
+    COALESCE(auth.uid(), NEW.user_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_project_requests_revision
+  AFTER INSERT OR UPDATE ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.record_request_revision();
+
+-- Backfill: the current content of every submitted request is its first revision
+INSERT INTO public.request_revisions (
+  request_id, revision_number, title, project_types, strategic_alignment, problem_statement,
+  expected_outcomes, estimated_duration, key_dependencies, confidentiality_level, edited_by, created_at
+)
+SELECT
+  id, 1, title, project_types, strategic_alignment, problem_statement,
+  expected_outcomes, estimated_duration, key_dependencies, confidentiality_level, user_id, created_at
+FROM public.project_requests
+WHERE status <> 'draft';
@@ -0,0 +1,40 @@
+-- A rejected request can be revised and resubmitted as a new request linked to the old one
+ALTER TABLE public.project_requests
+  ADD COLUMN resubmission_of UUID REFERENCES public.project_requests(id) ON DELETE SET NULL;
+
+-- Only one follow-up per rejected request; discarding the draft frees the slot again
+CREATE UNIQUE INDEX idx_project_requests_resubmission_of
+  ON public.project_requests(resubmission_of)
+  WHERE resubmission_of IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.validate_resubmission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.resubmission_of IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.resubmission_of IS NOT DISTINCT FROM OLD.resubmission_of THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_requests
+    WHERE id = NEW.resubmission_of
+      AND user_id = NEW.user_id
+      AND status = 'rejected'
+  ) THEN
+    RAISE EXCEPTION 'Only your own rejected requests can be resubmitted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_project_requests_resubmission
+  BEFORE INSERT OR UPDATE OF resubmission_of ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_resubmission();
@@ -0,0 +1,50 @@
+-- Requests are never hard-deleted once submitted: requesters withdraw them and
+-- admins archive closed ones out of the way, so demand history is preserved
+ALTER TABLE public.project_requests
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN archived_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_project_requests_archived_at ON public.project_requests(archived_at);
+
+-- Only drafts can still be deleted outright
+DROP POLICY "Users can delete own draft or pending requests" ON public.project_requests;
+
+CREATE POLICY "Users can delete own drafts"
+  ON public.project_requests FOR DELETE
+  USING (auth.uid() = user_id AND status = 'draft');
+
+-- Owners can update their pending requests, so the archive columns are guarded here
+-- rather than by RLS: only admins may archive, and only requests in a terminal status
+CREATE OR REPLACE FUNCTION public.enforce_archive_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.archived_at IS NOT DISTINCT FROM OLD.archived_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can archive requests';
+  END IF;
+
+  IF NEW.archived_at IS NULL THEN
+    NEW.archived_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.request_statuses WHERE key = NEW.status AND is_terminal) THEN
+    RAISE EXCEPTION 'Only closed requests can be archived';
+  END IF;
+
+  NEW.archived_at := now();
+  NEW.archived_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_project_requests_archive_rules
+  BEFORE UPDATE OF archived_at ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_archive_rules();
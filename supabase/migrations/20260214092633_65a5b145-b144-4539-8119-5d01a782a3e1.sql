@@ -0,0 +1,227 @@
+-- Each request has a lead reviewer and optionally a few co-reviewers
+ALTER TYPE public.notification_type ADD VALUE 'assignment';
+
+ALTER TABLE public.project_requests
+  ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_project_requests_assigned_to ON public.project_requests(assigned_to);
+
+CREATE TABLE public.request_co_reviewers (
+  request_id UUID REFERENCES public.project_requests(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (request_id, user_id)
+);
+
+CREATE INDEX idx_request_co_reviewers_user_id ON public.request_co_reviewers(user_id);
+
+ALTER TABLE public.request_co_reviewers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view co-reviewers"
+  ON public.request_co_reviewers FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can add admin co-reviewers"
+  ON public.request_co_reviewers FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND public.has_role(user_id, 'admin')
+    AND added_by = auth.uid()
+  );
+
+CREATE POLICY "Admins can remove co-reviewers"
+  ON public.request_co_reviewers FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.request_co_reviewers;
+
+-- Owners can update pending requests, so assignment is guarded here like archiving
+CREATE OR REPLACE FUNCTION public.enforce_assignment_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign reviewers';
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL AND NOT public.has_role(NEW.assigned_to, 'admin') THEN
+    RAISE EXCEPTION 'Requests can only be assigned to admins';
+  END IF;
+
+  NEW.assigned_at := CASE WHEN NEW.assigned_to IS NULL THEN NULL ELSE now() END;
+
+  -- The new lead doesn't also need to be listed as a co-reviewer
+  DELETE FROM public.request_co_reviewers
+  WHERE request_id = NEW.id AND user_id = NEW.assigned_to;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_project_requests_assignment_rules
+  BEFORE UPDATE OF assigned_to ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_assignment_rules();
+
+-- Tell reviewers when someone else puts a request on their plate
+CREATE OR REPLACE FUNCTION public.notify_reviewer_assignment(
+  _request_id UUID,
+  _assignee_id UUID,
+  _reviewer_role TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_title TEXT;
+  actor_name TEXT;
+BEGIN
+  IF _assignee_id IS NULL OR _assignee_id IS NOT DISTINCT FROM auth.uid() THEN
+    RETURN;
+  END IF;
+
+  SELECT title INTO request_title FROM public.project_requests WHERE id = _request_id;
+  SELECT full_name INTO actor_name FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.notifications (user_id, request_id, type, actor_id, metadata, message)
+  VALUES (
+    _assignee_id,
+    _request_id,
+    'assignment',
+    auth.uid(),
+    jsonb_build_object('reviewer_role', _reviewer_role),
+    COALESCE(actor_name, 'An admin') || CASE
+      WHEN _reviewer_role = 'lead' THEN ' assigned you to review "'
+      ELSE ' added you as a co-reviewer on "'
+    END || request_title || '"'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_request_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    PERFORM public.notify_reviewer_assignment(NEW.id, NEW.assigned_to, 'lead');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_request_assigned
+  AFTER UPDATE OF assigned_to ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_request_assignment();
+
+CREATE OR REPLACE FUNCTION public.handle_co_reviewer_added()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify_reviewer_assignment(NEW.request_id, NEW.user_id, 'co_reviewer');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_co_reviewer_added
+  AFTER INSERT ON public.request_co_reviewers
+  FOR EACH ROW EXECUTE FUNCTION public.handle_co_reviewer_added();
+
+-- Requester replies go to the assigned reviewers first, then anyone who has
+-- taken part, and only fall back to every admin for untouched requests
+CREATE OR REPLACE FUNCTION public.handle_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_owner_id UUID;
+  request_assignee_id UUID;
+  author_name TEXT;
+  request_title TEXT;
+BEGIN
+  -- A comment left with a status change is already covered by that notification
+  IF NEW.comment = current_setting('app.transition_comment', true) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id, assigned_to, title INTO request_owner_id, request_assignee_id, request_title
+  FROM public.project_requests
+  WHERE id = NEW.request_id;
+
+  SELECT full_name INTO author_name
+  FROM public.profiles
+  WHERE user_id = NEW.author_id;
+
+  IF NEW.author_role = 'admin' THEN
+    INSERT INTO public.notifications (user_id, request_id, comment_id, type, actor_id, message)
+    VALUES (
+      request_owner_id,
+      NEW.request_id,
+      NEW.id,
+      'comment',
+      NEW.author_id,
+      'Admin ' || COALESCE(author_name, 'Unknown') || ' commented on your request: "' || request_title || '"'
+    );
+  ELSE
+    WITH reviewers AS (
+      SELECT request_assignee_id AS user_id
+      WHERE request_assignee_id IS NOT NULL
+      UNION
+      SELECT user_id
+      FROM public.request_co_reviewers
+      WHERE request_id = NEW.request_id
+    ),
+    participants AS (
+      SELECT user_id FROM reviewers
+      UNION
+      SELECT author_id
+      FROM public.comments
+      WHERE request_id = NEW.request_id AND author_role = 'admin' AND NOT EXISTS (SELECT 1 FROM reviewers)
+      UNION
+      SELECT changed_by
+      FROM public.request_status_history
+      WHERE request_id = NEW.request_id AND changed_by IS NOT NULL AND changed_by <> request_owner_id
+        AND NOT EXISTS (SELECT 1 FROM reviewers)
+    ),
+    recipients AS (
+      SELECT user_id FROM participants
+      WHERE public.has_role(user_id, 'admin')
+      UNION
+      SELECT user_id FROM public.user_roles
+      WHERE role = 'admin' AND NOT EXISTS (SELECT 1 FROM participants)
+    )
+    INSERT INTO public.notifications (user_id, request_id, comment_id, type, actor_id, message)
+    SELECT
+      recipients.user_id,
+      NEW.request_id,
+      NEW.id,
+      'comment',
+      NEW.author_id,
+      COALESCE(author_name, 'The requester') || ' replied on "' || request_title || '"'
+    FROM recipients
+    WHERE recipients.user_id <> NEW.author_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Only the triggers above should be able to create assignment notifications
+REVOKE EXECUTE ON FUNCTION public.notify_reviewer_assignment(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
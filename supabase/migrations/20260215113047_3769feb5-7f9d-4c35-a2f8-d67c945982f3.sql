@@ -0,0 +1,232 @@
+-- Sign-off policy: some requests need approval from several reviewers. A request
+-- needs the highest quorum of any rule it matches, and at least one vote from each
+-- reviewer named on it; with neither, an admin can still approve it directly.
+CREATE TABLE public.approval_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  -- NULL criteria match any request
+  project_type TEXT,
+  confidentiality_level confidentiality_level,
+  estimated_durations TEXT[],
+  required_approvals INTEGER NOT NULL CHECK (required_approvals >= 1),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE public.request_required_approvers (
+  request_id UUID REFERENCES public.project_requests(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (request_id, user_id)
+);
+
+CREATE TABLE public.request_approval_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID REFERENCES public.project_requests(id) ON DELETE CASCADE NOT NULL,
+  voter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approve', 'reject')),
+  rationale TEXT NOT NULL CHECK (length(trim(rationale)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (request_id, voter_id)
+);
+
+CREATE TRIGGER update_request_approval_votes_updated_at
+  BEFORE UPDATE ON public.request_approval_votes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.approval_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.request_required_approvers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.request_approval_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view approval rules"
+  ON public.approval_rules FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage approval rules"
+  ON public.approval_rules FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view required approvers"
+  ON public.request_required_approvers FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can add admin approvers"
+  ON public.request_required_approvers FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND public.has_role(user_id, 'admin')
+    AND added_by = auth.uid()
+  );
+
+CREATE POLICY "Admins can remove required approvers"
+  ON public.request_required_approvers FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view votes"
+  ON public.request_approval_votes FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can cast own votes"
+  ON public.request_approval_votes FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = voter_id);
+
+CREATE POLICY "Admins can change own votes"
+  ON public.request_approval_votes FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin') AND auth.uid() = voter_id);
+
+CREATE POLICY "Admins can retract own votes"
+  ON public.request_approval_votes FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin') AND auth.uid() = voter_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.request_approval_votes;
+
+-- Where a request stands against its sign-off policy
+CREATE OR REPLACE FUNCTION public.get_approval_summary(_request_id UUID)
+RETURNS TABLE (
+  required_approvals INTEGER,
+  approvals INTEGER,
+  rejections INTEGER,
+  missing_approvers UUID[],
+  approver_rejected BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH request AS (
+    SELECT * FROM public.project_requests WHERE id = _request_id
+  ),
+  rule_quorum AS (
+    SELECT COALESCE(MAX(rule.required_approvals), 0) AS n
+    FROM public.approval_rules rule, request r
+    WHERE (rule.project_type IS NULL OR rule.project_type = ANY(r.project_types))
+      AND (rule.confidentiality_level IS NULL OR rule.confidentiality_level = r.confidentiality_level)
+      AND (rule.estimated_durations IS NULL OR r.estimated_duration = ANY(rule.estimated_durations))
+  ),
+  named AS (
+    SELECT ra.user_id, v.decision
+    FROM public.request_required_approvers ra
+    LEFT JOIN public.request_approval_votes v
+      ON v.request_id = ra.request_id AND v.voter_id = ra.user_id
+    WHERE ra.request_id = _request_id
+  ),
+  votes AS (
+    SELECT
+      COUNT(*) FILTER (WHERE decision = 'approve')::INTEGER AS approvals,
+      COUNT(*) FILTER (WHERE decision = 'reject')::INTEGER AS rejections
+    FROM public.request_approval_votes
+    WHERE request_id = _request_id
+  )
+  SELECT
+    GREATEST((SELECT n FROM rule_quorum), (SELECT COUNT(*) FROM named)::INTEGER),
+    votes.approvals,
+    votes.rejections,
+    COALESCE((SELECT array_agg(user_id) FROM named WHERE decision IS DISTINCT FROM 'approve'), '{}'),
+    EXISTS (SELECT 1 FROM named WHERE decision = 'reject')
+  FROM votes
+  WHERE public.has_role(auth.uid(), 'admin') OR auth.uid() IS NULL;
+$$;
+
+-- Votes only count while a request can still be approved
+CREATE OR REPLACE FUNCTION public.validate_approval_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.project_requests r
+    JOIN public.request_status_transitions t
+      ON t.from_status = r.status AND t.to_status = 'approved' AND t.actor_role = 'admin'
+    WHERE r.id = NEW.request_id
+  ) THEN
+    RAISE EXCEPTION 'Votes can only be cast while the request is under review';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_request_approval_votes
+  BEFORE INSERT OR UPDATE ON public.request_approval_votes
+  FOR EACH ROW EXECUTE FUNCTION public.validate_approval_vote();
+
+-- Close the request once the votes settle it: approve when the quorum and every
+-- named approver agree; reject when a named approver or a quorum votes against
+CREATE OR REPLACE FUNCTION public.apply_approval_votes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  summary RECORD;
+  target_status TEXT;
+  outcome_comment TEXT;
+BEGIN
+  SELECT * INTO summary FROM public.get_approval_summary(NEW.request_id);
+
+  -- Without a sign-off policy votes are advisory and admins decide as before
+  IF summary.required_approvals = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF summary.approvals >= summary.required_approvals AND cardinality(summary.missing_approvers) = 0 THEN
+    target_status := 'approved';
+    outcome_comment := 'Approved by ' || summary.approvals || ' of ' || summary.required_approvals || ' required reviewers';
+  ELSIF summary.approver_rejected OR summary.rejections >= summary.required_approvals THEN
+    target_status := 'rejected';
+    outcome_comment := NEW.rationale;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.transition_comment', outcome_comment, true);
+  UPDATE public.project_requests
+  SET status = target_status
+  WHERE id = NEW.request_id AND status <> target_status;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_request_approval_votes
+  AFTER INSERT OR UPDATE ON public.request_approval_votes
+  FOR EACH ROW EXECUTE FUNCTION public.apply_approval_votes();
+
+-- Stop an admin from approving by hand before the policy is satisfied
+CREATE OR REPLACE FUNCTION public.enforce_approval_quorum()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  summary RECORD;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status = 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO summary FROM public.get_approval_summary(NEW.id);
+
+  IF summary.required_approvals > 0 AND (
+    summary.approvals < summary.required_approvals OR cardinality(summary.missing_approvers) > 0
+  ) THEN
+    RAISE EXCEPTION 'This request needs % approving votes (% so far) before it can be approved',
+      summary.required_approvals, summary.approvals;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_project_requests_approval_quorum
+  BEFORE UPDATE OF status ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_quorum();
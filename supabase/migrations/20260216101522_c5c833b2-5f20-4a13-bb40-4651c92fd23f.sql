@@ -0,0 +1,80 @@
+-- Scoring rubric: admin-defined criteria that every reviewer rates from 1 to 5
+CREATE TABLE public.scoring_criteria (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight BETWEEN 1 AND 10),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- One row per reviewer, criterion and request; together they form a reviewer's score sheet
+CREATE TABLE public.request_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID REFERENCES public.project_requests(id) ON DELETE CASCADE NOT NULL,
+  criterion_id UUID REFERENCES public.scoring_criteria(id) ON DELETE CASCADE NOT NULL,
+  reviewer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  score INTEGER NOT NULL CHECK (score BETWEEN 1 AND 5),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (request_id, criterion_id, reviewer_id)
+);
+
+CREATE INDEX idx_request_scores_request_id ON public.request_scores(request_id);
+
+CREATE TRIGGER update_request_scores_updated_at
+  BEFORE UPDATE ON public.request_scores
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.scoring_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.request_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scoring criteria"
+  ON public.scoring_criteria FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage scoring criteria"
+  ON public.scoring_criteria FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view scores"
+  ON public.request_scores FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can score requests"
+  ON public.request_scores FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = reviewer_id);
+
+CREATE POLICY "Admins can update own scores"
+  ON public.request_scores FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin') AND auth.uid() = reviewer_id);
+
+CREATE POLICY "Admins can delete own scores"
+  ON public.request_scores FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin') AND auth.uid() = reviewer_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.request_scores;
+
+-- Each reviewer's sheet is reduced to a weighted mean over the criteria they scored,
+-- then sheets are averaged so a reviewer who skips a criterion doesn't skew the result.
+-- security_invoker keeps the table policies in force for whoever queries the view.
+CREATE VIEW public.request_score_summaries
+WITH (security_invoker = on)
+AS
+WITH sheets AS (
+  SELECT
+    s.request_id,
+    s.reviewer_id,
+    SUM(s.score * c.weight)::NUMERIC / SUM(c.weight) AS weighted_score
+  FROM public.request_scores s
+  JOIN public.scoring_criteria c ON c.id = s.criterion_id
+  GROUP BY s.request_id, s.reviewer_id
+)
+SELECT
+  request_id,
+  ROUND(AVG(weighted_score), 2) AS weighted_score,
+  COUNT(*)::INTEGER AS reviewer_count
+FROM sheets
+GROUP BY request_id;
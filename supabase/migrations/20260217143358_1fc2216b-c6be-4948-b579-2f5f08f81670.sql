@@ -0,0 +1,278 @@
+-- Priority levels and first-response SLAs for incoming requests
+CREATE TYPE public.request_priority AS ENUM ('low', 'normal', 'high', 'urgent');
+
+ALTER TYPE public.notification_type ADD VALUE 'sla_breach';
+
+ALTER TABLE public.project_requests
+  ADD COLUMN priority request_priority NOT NULL DEFAULT 'normal',
+  ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN first_response_due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN first_responded_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN sla_breach_notified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_project_requests_first_response_due_at
+  ON public.project_requests(first_response_due_at)
+  WHERE first_responded_at IS NULL;
+
+-- How long admins have to respond to a new request of each type. A NULL project
+-- type is the fallback for types without a policy of their own.
+CREATE TABLE public.sla_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_type TEXT,
+  first_response_business_days INTEGER NOT NULL CHECK (first_response_business_days >= 1),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_sla_policies_project_type ON public.sla_policies(COALESCE(project_type, ''));
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view SLA policies"
+  ON public.sla_policies FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage SLA policies"
+  ON public.sla_policies FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.sla_policies (project_type, first_response_business_days) VALUES (NULL, 3);
+
+-- Weekends don't count towards the response window
+CREATE OR REPLACE FUNCTION public.add_business_days(_start TIMESTAMP WITH TIME ZONE, _days INTEGER)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  result TIMESTAMP WITH TIME ZONE := _start;
+  remaining INTEGER := _days;
+BEGIN
+  WHILE remaining > 0 LOOP
+    result := result + INTERVAL '1 day';
+    IF EXTRACT(ISODOW FROM result) < 6 THEN
+      remaining := remaining - 1;
+    END IF;
+  END LOOP;
+  RETURN result;
+END;
+$$;
+
+-- A request spanning several project types gets the strictest matching policy
+CREATE OR REPLACE FUNCTION public.get_first_response_due(
+  _project_types TEXT[],
+  _submitted_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.add_business_days(_submitted_at, days)
+  FROM (
+    SELECT COALESCE(
+      (SELECT MIN(first_response_business_days) FROM public.sla_policies WHERE project_type = ANY(_project_types)),
+      (SELECT first_response_business_days FROM public.sla_policies WHERE project_type IS NULL)
+    ) AS days
+  ) policy
+  WHERE days IS NOT NULL;
+$$;
+
+-- Start the clock when a request leaves the drafts, and keep the due date in step
+-- with its project types until someone responds
+CREATE OR REPLACE FUNCTION public.set_request_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR OLD.status = 'draft' THEN
+    NEW.submitted_at := now();
+  END IF;
+
+  IF NEW.first_responded_at IS NULL AND (
+    TG_OP = 'INSERT' OR OLD.status = 'draft' OR NEW.project_types IS DISTINCT FROM OLD.project_types
+  ) THEN
+    NEW.first_response_due_at := public.get_first_response_due(NEW.project_types, NEW.submitted_at);
+    NEW.sla_breach_notified_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_project_requests_sla
+  BEFORE INSERT OR UPDATE OF status, project_types ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_request_sla();
+
+-- Priority is an admin call; owners can otherwise update their pending requests
+CREATE OR REPLACE FUNCTION public.enforce_priority_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.priority IS DISTINCT FROM OLD.priority
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'admin')
+  THEN
+    RAISE EXCEPTION 'Only admins can set the priority';
+  END IF;
+
+  -- The SLA bookkeeping is maintained by triggers only
+  IF auth.uid() IS NOT NULL AND (
+    NEW.submitted_at IS DISTINCT FROM OLD.submitted_at
+    OR NEW.first_response_due_at IS DISTINCT FROM OLD.first_response_due_at
+    OR NEW.first_responded_at IS DISTINCT FROM OLD.first_responded_at
+    OR NEW.sla_breach_notified_at IS DISTINCT FROM OLD.sla_breach_notified_at
+  ) AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'SLA dates cannot be changed directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_project_requests_priority_rules
+  BEFORE UPDATE OF priority, submitted_at, first_response_due_at, first_responded_at, sla_breach_notified_at
+  ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_priority_rules();
+
+-- An admin responds by moving the request on or by writing to the requester
+CREATE OR REPLACE FUNCTION public.record_first_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  responder UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'comments' THEN
+    IF NEW.author_role <> 'admin' OR NEW.is_internal THEN
+      RETURN NEW;
+    END IF;
+    responder := NEW.author_id;
+  ELSE
+    IF NEW.from_status IS NULL OR NEW.from_status = 'draft' THEN
+      RETURN NEW;
+    END IF;
+    responder := NEW.changed_by;
+  END IF;
+
+  IF responder IS NOT NULL AND NOT public.has_role(responder, 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.project_requests
+  SET first_responded_at = NEW.created_at
+  WHERE id = NEW.request_id AND first_responded_at IS NULL AND status <> 'draft';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_comment_first_response
+  AFTER INSERT ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.record_first_response();
+
+CREATE TRIGGER on_status_history_first_response
+  AFTER INSERT ON public.request_status_history
+  FOR EACH ROW EXECUTE FUNCTION public.record_first_response();
+
+-- Tell the assigned reviewer (or every admin for unassigned requests) once a
+-- request misses its first-response deadline. Runs from pg_cron.
+CREATE OR REPLACE FUNCTION public.notify_sla_breaches()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  breached RECORD;
+  breach_count INTEGER := 0;
+BEGIN
+  FOR breached IN
+    UPDATE public.project_requests r
+    SET sla_breach_notified_at = now()
+    WHERE r.first_responded_at IS NULL
+      AND r.first_response_due_at < now()
+      AND r.sla_breach_notified_at IS NULL
+      AND r.archived_at IS NULL
+      AND EXISTS (
+        SELECT 1 FROM public.request_statuses s
+        WHERE s.key = r.status AND NOT s.is_terminal AND s.key <> 'draft'
+      )
+    RETURNING r.id, r.title, r.assigned_to, r.first_response_due_at
+  LOOP
+    INSERT INTO public.notifications (user_id, request_id, type, metadata, message)
+    SELECT
+      recipient.user_id,
+      breached.id,
+      'sla_breach',
+      jsonb_build_object('due_at', breached.first_response_due_at),
+      '"' || breached.title || '" is waiting past its first-response deadline'
+    FROM (
+      SELECT breached.assigned_to AS user_id WHERE breached.assigned_to IS NOT NULL
+      UNION
+      SELECT user_id FROM public.user_roles WHERE role = 'admin' AND breached.assigned_to IS NULL
+    ) recipient;
+
+    breach_count := breach_count + 1;
+  END LOOP;
+
+  RETURN breach_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_sla_breaches() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('notify-sla-breaches', '*/15 * * * *', 'SELECT public.notify_sla_breaches()');
+
+-- Existing requests: treat the first history entry as the submission, and any
+-- later status change or admin comment as the first response. The backfill is
+-- bookkeeping, so it must not bump updated_at on every request.
+ALTER TABLE public.project_requests DISABLE TRIGGER update_project_requests_updated_at;
+
+UPDATE public.project_requests r
+SET submitted_at = COALESCE(
+  (SELECT MIN(h.created_at) FROM public.request_status_history h
+   WHERE h.request_id = r.id AND h.to_status <> 'draft'),
+  r.created_at
+)
+WHERE r.status <> 'draft';
+
+UPDATE public.project_requests r
+SET first_responded_at = (
+  SELECT MIN(response.created_at) FROM (
+    SELECT h.created_at FROM public.request_status_history h
+    WHERE h.request_id = r.id AND h.from_status IS NOT NULL AND h.from_status <> 'draft'
+      AND (h.changed_by IS NULL OR public.has_role(h.changed_by, 'admin'))
+    UNION ALL
+    SELECT c.created_at FROM public.comments c
+    WHERE c.request_id = r.id AND c.author_role = 'admin' AND NOT c.is_internal
+  ) response
+)
+WHERE r.status <> 'draft';
+
+UPDATE public.project_requests
+SET first_response_due_at = public.get_first_response_due(project_types, submitted_at)
+WHERE status <> 'draft';
+
+-- Don't flood admins with breaches that happened before SLAs existed
+UPDATE public.project_requests
+SET sla_breach_notified_at = now()
+WHERE first_responded_at IS NULL AND first_response_due_at < now();
+
+ALTER TABLE public.project_requests ENABLE TRIGGER update_project_requests_updated_at;
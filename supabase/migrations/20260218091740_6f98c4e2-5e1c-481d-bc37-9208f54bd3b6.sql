@@ -0,0 +1,41 @@
+-- The admin request list is paginated, filtered and sorted by the database
+CREATE INDEX idx_project_requests_created_at ON public.project_requests(created_at DESC);
+CREATE INDEX idx_project_requests_project_types ON public.project_requests USING GIN (project_types);
+
+-- Computed column so the list can be ordered by score; PostgREST exposes it as
+-- project_requests.weighted_score. Runs with the caller's rights, so only admins
+-- (who can read the scores) see a value.
+CREATE OR REPLACE FUNCTION public.weighted_score(public.project_requests)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT weighted_score FROM public.request_score_summaries WHERE request_id = $1.id;
+$$;
+
+-- Request counts per status for the stats cards, over everything the caller can see
+CREATE OR REPLACE FUNCTION public.get_request_stats()
+RETURNS TABLE (
+  status TEXT,
+  request_count INTEGER,
+  overdue_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.status,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (
+      WHERE r.first_responded_at IS NULL
+        AND r.first_response_due_at < now()
+        AND r.archived_at IS NULL
+        AND NOT s.is_terminal
+    )::INTEGER
+  FROM public.project_requests r
+  JOIN public.request_statuses s ON s.key = r.status
+  WHERE r.status <> 'draft'
+  GROUP BY r.status;
+$$;
@@ -0,0 +1,31 @@
+-- Names that lists used to look up one profile at a time. These are computed
+-- columns, so PostgREST can select, filter and order by them in the same query as
+-- the row itself (e.g. select=*,submitter_name). They run with the caller's rights:
+-- profile RLS still decides whose name a user may see, and a hidden profile reads
+-- as NULL.
+CREATE OR REPLACE FUNCTION public.submitter_name(public.project_requests)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT full_name FROM public.profiles WHERE user_id = $1.user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submitter_email(public.project_requests)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT email FROM public.profiles WHERE user_id = $1.user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.author_name(public.comments)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT full_name FROM public.profiles WHERE user_id = $1.author_id;
+$$;
@@ -0,0 +1,154 @@
+-- Full-text search over everything written about a request: its own fields, the
+-- discussion (internal notes included, as only admins can search) and attachment
+-- names. Comments and files live in other tables, so each request's document is
+-- kept in a table of its own and refreshed by triggers.
+CREATE TABLE public.request_search_documents (
+  request_id UUID PRIMARY KEY REFERENCES public.project_requests(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_request_search_documents_document
+  ON public.request_search_documents USING GIN (document);
+
+ALTER TABLE public.request_search_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view search documents"
+  ON public.request_search_documents FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- File names are split on the usual separators so "apt29_iocs.csv" matches "apt29"
+CREATE OR REPLACE FUNCTION public.searchable_file_name(_file_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(_file_name, '[._-]+', ' ', 'g');
+$$;
+
+-- Titles weigh most, then the request body, then the discussion, then file names
+CREATE OR REPLACE FUNCTION public.refresh_request_search_document(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.request_search_documents (request_id, document, updated_at)
+  SELECT
+    r.id,
+    setweight(to_tsvector('english', r.title), 'A')
+      || setweight(to_tsvector('english', concat_ws(' ',
+        r.problem_statement, r.expected_outcomes, r.strategic_alignment, r.key_dependencies
+      )), 'B')
+      || setweight(to_tsvector('english', COALESCE(
+        (SELECT string_agg(c.comment, ' ') FROM public.comments c WHERE c.request_id = r.id), ''
+      )), 'C')
+      || setweight(to_tsvector('english', COALESCE(
+        (SELECT string_agg(public.searchable_file_name(a.file_name), ' ')
+         FROM public.request_attachments a WHERE a.request_id = r.id), ''
+      )), 'D'),
+    now()
+  FROM public.project_requests r
+  WHERE r.id = _request_id
+  ON CONFLICT (request_id) DO UPDATE
+  SET document = EXCLUDED.document, updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_request_search_document(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_search_document_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'project_requests' THEN
+    PERFORM public.refresh_request_search_document(NEW.id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_request_search_document(OLD.request_id);
+  ELSE
+    PERFORM public.refresh_request_search_document(NEW.request_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_project_requests_search_document
+  AFTER INSERT OR UPDATE OF title, problem_statement, expected_outcomes, strategic_alignment, key_dependencies
+  ON public.project_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_search_document_change();
+
+CREATE TRIGGER refresh_comments_search_document
+  AFTER INSERT OR UPDATE OF comment OR DELETE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.handle_search_document_change();
+
+CREATE TRIGGER refresh_request_attachments_search_document
+  AFTER INSERT OR DELETE ON public.request_attachments
+  FOR EACH ROW EXECUTE FUNCTION public.handle_search_document_change();
+
+SELECT public.refresh_request_search_document(id) FROM public.project_requests;
+
+-- Ranked matches for web-search style queries: "exact phrases", -excluded words
+-- and OR. Returns request rows so the caller can keep filtering, counting and
+-- paging with the usual PostgREST operators; rows come back best match first.
+CREATE OR REPLACE FUNCTION public.search_requests(_query TEXT)
+RETURNS SETOF public.project_requests
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.*
+  FROM public.project_requests r
+  JOIN public.request_search_documents d ON d.request_id = r.id
+  WHERE d.document @@ websearch_to_tsquery('english', _query)
+  ORDER BY ts_rank_cd(d.document, websearch_to_tsquery('english', _query)) DESC, r.created_at DESC;
+$$;
+
+-- Highlighted excerpts for a page of search results. Matches are wrapped in
+-- U+0002 / U+0003 so the client can mark them up without trusting any HTML.
+-- Runs with the caller's rights, so excerpts only come from rows they can read.
+CREATE OR REPLACE FUNCTION public.get_search_snippets(_query TEXT, _request_ids UUID[])
+RETURNS TABLE (
+  request_id UUID,
+  matched_in TEXT,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', _query) AS query,
+      format('StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "',
+        chr(2), chr(3)) AS options
+  ),
+  sources AS (
+    SELECT r.id AS request_id, 1 AS priority, 'request' AS matched_in,
+      concat_ws(' ', r.problem_statement, r.expected_outcomes, r.strategic_alignment, r.key_dependencies) AS body
+    FROM public.project_requests r
+    WHERE r.id = ANY(_request_ids)
+    UNION ALL
+    SELECT c.request_id, 2, 'comments', string_agg(c.comment, ' … ' ORDER BY c.created_at)
+    FROM public.comments c
+    WHERE c.request_id = ANY(_request_ids)
+    GROUP BY c.request_id
+    UNION ALL
+    SELECT a.request_id, 3, 'attachments', string_agg(a.file_name, ', ' ORDER BY a.created_at)
+    FROM public.request_attachments a
+    WHERE a.request_id = ANY(_request_ids)
+    GROUP BY a.request_id
+  )
+  SELECT DISTINCT ON (s.request_id)
+    s.request_id,
+    s.matched_in,
+    ts_headline('english', s.body, q.query, q.options)
+  FROM sources s, q
+  WHERE to_tsvector('english', CASE
+    WHEN s.matched_in = 'attachments' THEN public.searchable_file_name(s.body)
+    ELSE s.body
+  END) @@ q.query
+  ORDER BY s.request_id, s.priority;
+$$;
@@ -0,0 +1,82 @@
+-- Bulk actions from the admin request table. Runs as the caller, so every row goes
+-- through the same RLS policies, transition rules and guard triggers as a single
+-- edit would. Each row is applied in its own subtransaction: one failure is
+-- reported against that row and the rest still go through.
+CREATE OR REPLACE FUNCTION public.bulk_update_requests(
+  _request_ids UUID[],
+  _action TEXT,
+  _status TEXT DEFAULT NULL,
+  _assignee UUID DEFAULT NULL,
+  _comment TEXT DEFAULT NULL,
+  _is_internal BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  request_id UUID,
+  title TEXT,
+  succeeded BOOLEAN,
+  message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  trimmed_comment TEXT := NULLIF(trim(COALESCE(_comment, '')), '');
+  target_id UUID;
+  target_title TEXT;
+  affected INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can run bulk actions';
+  END IF;
+
+  IF _action NOT IN ('status', 'assign', 'archive', 'comment') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', _action;
+  END IF;
+
+  IF _action = 'status' AND _status IS NULL THEN
+    RAISE EXCEPTION 'A target status is required';
+  END IF;
+
+  IF _action = 'comment' AND trimmed_comment IS NULL THEN
+    RAISE EXCEPTION 'A comment is required';
+  END IF;
+
+  FOREACH target_id IN ARRAY _request_ids LOOP
+    SELECT r.title INTO target_title FROM public.project_requests r WHERE r.id = target_id;
+
+    BEGIN
+      IF target_title IS NULL THEN
+        RAISE EXCEPTION 'Request not found';
+      END IF;
+
+      IF _action = 'status' THEN
+        PERFORM public.transition_request_status(target_id, _status, trimmed_comment);
+      ELSIF _action = 'assign' THEN
+        UPDATE public.project_requests SET assigned_to = _assignee WHERE id = target_id;
+      ELSIF _action = 'archive' THEN
+        UPDATE public.project_requests SET archived_at = now() WHERE id = target_id AND archived_at IS NULL;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+        IF affected = 0 THEN
+          RAISE EXCEPTION 'Already archived';
+        END IF;
+      ELSE
+        INSERT INTO public.comments (request_id, author_id, comment, is_internal)
+        VALUES (target_id, auth.uid(), trimmed_comment, COALESCE(_is_internal, false));
+      END IF;
+
+      request_id := target_id;
+      title := target_title;
+      succeeded := true;
+      message := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      request_id := target_id;
+      title := target_title;
+      succeeded := false;
+      message := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,59 @@
+-- Admins cleared to export restricted request content, and the admin who granted it
+CREATE TABLE public.export_clearances (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.export_clearances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view export clearances"
+  ON public.export_clearances FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can grant export clearance to other admins"
+  ON public.export_clearances FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND public.has_role(user_id, 'admin')
+    AND user_id <> auth.uid()
+    AND granted_by = auth.uid()
+  );
+
+CREATE POLICY "Admins can revoke export clearance"
+  ON public.export_clearances FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Reporting columns for exports, computed per row like submitter_name
+CREATE OR REPLACE FUNCTION public.comment_count(public.project_requests)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER FROM public.comments WHERE request_id = $1.id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.last_status_change_at(public.project_requests)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT max(created_at) FROM public.request_status_history WHERE request_id = $1.id;
+$$;
+
+-- When the request reached the terminal status it is in now; NULL while still open
+CREATE OR REPLACE FUNCTION public.decided_at(public.project_requests)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT max(h.created_at)
+  FROM public.request_status_history h
+  JOIN public.request_statuses s ON s.key = h.to_status
+  WHERE h.request_id = $1.id
+    AND h.to_status = $1.status
+    AND s.is_terminal;
+$$;
@@ -0,0 +1,28 @@
+-- Who decided a request, for the decision record. Requesters can't read admin
+-- profiles, so the deciding admin's name is resolved here for the request owner
+-- as well as for admins. A request counts as decided once an admin has moved it
+-- into the terminal status it is in now; withdrawals are not decisions.
+CREATE OR REPLACE FUNCTION public.get_request_decision(_request_id UUID)
+RETURNS TABLE (
+  status TEXT,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decided_by UUID,
+  decided_by_name TEXT,
+  comment TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT h.to_status, h.created_at, h.changed_by, p.full_name, h.comment
+  FROM public.project_requests r
+  JOIN public.request_status_history h ON h.request_id = r.id AND h.to_status = r.status
+  JOIN public.request_statuses s ON s.key = r.status AND s.is_terminal
+  LEFT JOIN public.profiles p ON p.user_id = h.changed_by
+  WHERE r.id = _request_id
+    AND public.has_role(h.changed_by, 'admin')
+    AND (public.has_role(auth.uid(), 'admin') OR r.user_id = auth.uid())
+  ORDER BY h.created_at DESC
+  LIMIT 1;
+$$;
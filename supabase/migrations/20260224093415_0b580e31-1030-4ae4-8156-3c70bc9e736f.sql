@@ -0,0 +1,206 @@
+-- Aggregates behind the admin analytics page. All of them take a [_from, _to) range
+-- on submission date (or decision date for decisions) and run with the caller's rights,
+-- so they only ever summarise requests the caller can read.
+
+-- Decision time is measured to the terminal status the request is in now, so a request
+-- that was rejected, revised and approved counts once, as approved.
+
+-- Totals for the summary cards
+CREATE OR REPLACE FUNCTION public.get_request_turnaround(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  submitted_count INTEGER,
+  approved_count INTEGER,
+  rejected_count INTEGER,
+  withdrawn_count INTEGER,
+  median_first_response_hours NUMERIC,
+  median_decision_hours NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH requests AS (
+    SELECT
+      r.status,
+      coalesce(r.submitted_at, r.created_at) AS submitted_at,
+      r.first_responded_at,
+      public.decided_at(r) AS decided_at
+    FROM public.project_requests r
+    WHERE r.status <> 'draft'
+  )
+  SELECT
+    (SELECT count(*) FROM requests WHERE submitted_at >= _from AND submitted_at < _to)::INTEGER,
+    count(*) FILTER (WHERE status = 'approved')::INTEGER,
+    count(*) FILTER (WHERE status = 'rejected')::INTEGER,
+    count(*) FILTER (WHERE status = 'withdrawn')::INTEGER,
+    (
+      SELECT round((percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY extract(epoch FROM first_responded_at - submitted_at) / 3600
+      ))::NUMERIC, 1)
+      FROM requests
+      WHERE submitted_at >= _from AND submitted_at < _to
+    ),
+    round((percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY extract(epoch FROM decided_at - submitted_at) / 3600
+    ) FILTER (WHERE status <> 'withdrawn'))::NUMERIC, 1)
+  FROM requests
+  WHERE decided_at >= _from AND decided_at < _to;
+$$;
+
+-- One row per week in the range, including empty weeks so the charts have no gaps.
+-- Submissions and first responses count towards the week the request came in,
+-- decisions towards the week they were made.
+CREATE OR REPLACE FUNCTION public.get_request_weekly_metrics(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  week_start DATE,
+  submitted_count INTEGER,
+  approved_count INTEGER,
+  rejected_count INTEGER,
+  withdrawn_count INTEGER,
+  median_first_response_hours NUMERIC,
+  median_decision_hours NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH requests AS (
+    SELECT
+      r.status,
+      coalesce(r.submitted_at, r.created_at) AS submitted_at,
+      r.first_responded_at,
+      public.decided_at(r) AS decided_at
+    FROM public.project_requests r
+    WHERE r.status <> 'draft'
+  ),
+  weeks AS (
+    SELECT generate_series(date_trunc('week', _from), date_trunc('week', _to - interval '1 microsecond'), interval '1 week') AS week_start
+  )
+  SELECT
+    w.week_start::DATE,
+    s.submitted_count,
+    d.approved_count,
+    d.rejected_count,
+    d.withdrawn_count,
+    s.median_first_response_hours,
+    d.median_decision_hours
+  FROM weeks w
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*)::INTEGER AS submitted_count,
+      round((percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY extract(epoch FROM q.first_responded_at - q.submitted_at) / 3600
+      ))::NUMERIC, 1) AS median_first_response_hours
+    FROM requests q
+    WHERE q.submitted_at >= greatest(w.week_start, _from)
+      AND q.submitted_at < least(w.week_start + interval '1 week', _to)
+  ) s
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE q.status = 'approved')::INTEGER AS approved_count,
+      count(*) FILTER (WHERE q.status = 'rejected')::INTEGER AS rejected_count,
+      count(*) FILTER (WHERE q.status = 'withdrawn')::INTEGER AS withdrawn_count,
+      round((percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY extract(epoch FROM q.decided_at - q.submitted_at) / 3600
+      ) FILTER (WHERE q.status <> 'withdrawn'))::NUMERIC, 1) AS median_decision_hours
+    FROM requests q
+    WHERE q.decided_at >= greatest(w.week_start, _from)
+      AND q.decided_at < least(w.week_start + interval '1 week', _to)
+  ) d
+  ORDER BY w.week_start;
+$$;
+
+-- Requests submitted in the range by project type and by confidentiality level.
+-- A request with several project types counts once under each of them.
+CREATE OR REPLACE FUNCTION public.get_request_breakdown(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  dimension TEXT,
+  value TEXT,
+  request_count INTEGER,
+  approved_count INTEGER,
+  rejected_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH requests AS (
+    SELECT r.status, r.project_types, r.confidentiality_level
+    FROM public.project_requests r
+    WHERE r.status <> 'draft'
+      AND coalesce(r.submitted_at, r.created_at) >= _from
+      AND coalesce(r.submitted_at, r.created_at) < _to
+  )
+  SELECT
+    'project_type',
+    t.project_type,
+    count(*)::INTEGER,
+    count(*) FILTER (WHERE q.status = 'approved')::INTEGER,
+    count(*) FILTER (WHERE q.status = 'rejected')::INTEGER
+  FROM requests q
+  CROSS JOIN LATERAL unnest(q.project_types) AS t(project_type)
+  GROUP BY t.project_type
+  UNION ALL
+  SELECT
+    'confidentiality_level',
+    q.confidentiality_level::TEXT,
+    count(*)::INTEGER,
+    count(*) FILTER (WHERE q.status = 'approved')::INTEGER,
+    count(*) FILTER (WHERE q.status = 'rejected')::INTEGER
+  FROM requests q
+  GROUP BY q.confidentiality_level;
+$$;
+
+-- Per admin: what is on their plate now (open, unarchived requests they lead or
+-- co-review) and how many requests they approved or rejected in the range
+CREATE OR REPLACE FUNCTION public.get_reviewer_workload(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  user_id UUID,
+  open_assigned_count INTEGER,
+  open_co_review_count INTEGER,
+  decided_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH open_requests AS (
+    SELECT r.id, r.assigned_to
+    FROM public.project_requests r
+    JOIN public.request_statuses s ON s.key = r.status
+    WHERE r.status <> 'draft'
+      AND r.archived_at IS NULL
+      AND NOT s.is_terminal
+  )
+  SELECT
+    ur.user_id,
+    (SELECT count(*) FROM open_requests o WHERE o.assigned_to = ur.user_id)::INTEGER,
+    (
+      SELECT count(*)
+      FROM open_requests o
+      JOIN public.request_co_reviewers c ON c.request_id = o.id
+      WHERE c.user_id = ur.user_id
+    )::INTEGER,
+    (
+      SELECT count(*)
+      FROM public.request_status_history h
+      WHERE h.changed_by = ur.user_id
+        AND h.to_status IN ('approved', 'rejected')
+        AND h.created_at >= _from
+        AND h.created_at < _to
+    )::INTEGER
+  FROM public.user_roles ur
+  WHERE ur.role = 'admin';
+$$;
@@ -0,0 +1,191 @@
+-- Admin user management. Roles and account status are only changed through the
+-- functions below, which keep at least one active admin around.
+CREATE TABLE public.account_deactivations (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  deactivated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.account_deactivations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view account deactivations"
+  ON public.account_deactivations FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Everyone with an account, with their role, status and how many requests they have raised
+CREATE OR REPLACE FUNCTION public.get_user_accounts()
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  email TEXT,
+  role app_role,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  deactivated_at TIMESTAMP WITH TIME ZONE,
+  deactivated_by UUID,
+  request_count INTEGER,
+  open_request_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can list user accounts';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.user_id,
+    p.full_name,
+    p.email,
+    ur.role,
+    p.created_at,
+    u.last_sign_in_at,
+    d.created_at,
+    d.deactivated_by,
+    count(r.id)::INTEGER,
+    count(r.id) FILTER (WHERE NOT s.is_terminal)::INTEGER
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.user_id
+  LEFT JOIN public.user_roles ur ON ur.user_id = p.user_id
+  LEFT JOIN public.account_deactivations d ON d.user_id = p.user_id
+  LEFT JOIN public.project_requests r ON r.user_id = p.user_id AND r.status <> 'draft'
+  LEFT JOIN public.request_statuses s ON s.key = r.status
+  GROUP BY p.user_id, p.full_name, p.email, ur.role, p.created_at, u.last_sign_in_at, d.created_at, d.deactivated_by
+  ORDER BY p.full_name;
+END;
+$$;
+
+-- Raises unless an active admin other than _user_id would remain. Locks the admin
+-- roles first so two admins can't demote each other at the same time.
+CREATE OR REPLACE FUNCTION public.ensure_other_active_admin(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    WHERE ur.role = 'admin'
+      AND ur.user_id <> _user_id
+      AND NOT EXISTS (SELECT 1 FROM public.account_deactivations d WHERE d.user_id = ur.user_id)
+  ) THEN
+    RAISE EXCEPTION 'At least one active admin is required';
+  END IF;
+END;
+$$;
+
+-- Hands back whatever an admin was holding on open requests, so nothing waits on
+-- someone who can no longer act on it
+CREATE OR REPLACE FUNCTION public.release_admin_duties(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.project_requests r
+  SET assigned_to = NULL
+  FROM public.request_statuses s
+  WHERE s.key = r.status
+    AND r.assigned_to = _user_id
+    AND NOT s.is_terminal;
+
+  DELETE FROM public.request_co_reviewers c
+  USING public.project_requests r, public.request_statuses s
+  WHERE r.id = c.request_id
+    AND s.key = r.status
+    AND c.user_id = _user_id
+    AND NOT s.is_terminal;
+
+  DELETE FROM public.request_required_approvers a
+  USING public.project_requests r, public.request_statuses s
+  WHERE r.id = a.request_id
+    AND s.key = r.status
+    AND a.user_id = _user_id
+    AND NOT s.is_terminal;
+
+  DELETE FROM public.export_clearances WHERE user_id = _user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_other_active_admin(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_admin_duties(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF public.has_role(_user_id, _role) THEN
+    RETURN;
+  END IF;
+
+  IF public.has_role(_user_id, 'admin') THEN
+    PERFORM public.ensure_other_active_admin(_user_id);
+    PERFORM public.release_admin_duties(_user_id);
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+END;
+$$;
+
+-- Deactivated accounts are banned in auth, which stops new sign-ins and token
+-- refreshes; their current sessions are ended as well
+CREATE OR REPLACE FUNCTION public.set_user_active(_user_id UUID, _active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can deactivate accounts';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF _active THEN
+    DELETE FROM public.account_deactivations WHERE user_id = _user_id;
+    UPDATE auth.users SET banned_until = NULL WHERE id = _user_id;
+    RETURN;
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.account_deactivations WHERE user_id = _user_id) THEN
+    RETURN;
+  END IF;
+
+  IF public.has_role(_user_id, 'admin') THEN
+    PERFORM public.ensure_other_active_admin(_user_id);
+    PERFORM public.release_admin_duties(_user_id);
+  END IF;
+
+  INSERT INTO public.account_deactivations (user_id, deactivated_by) VALUES (_user_id, auth.uid());
+  UPDATE auth.users SET banned_until = 'infinity' WHERE id = _user_id;
+  DELETE FROM auth.sessions WHERE user_id = _user_id;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Reviewers work on the requests they are assigned without full admin rights.
+-- Added on its own: a new enum value can't be used in the transaction that adds it.
+ALTER TYPE public.app_role ADD VALUE 'reviewer';
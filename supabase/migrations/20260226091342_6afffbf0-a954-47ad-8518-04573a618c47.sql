@@ -0,0 +1,467 @@
+-- Reviewer role: reviewers see, comment on and score the requests they lead or
+-- co-review, and nothing else. Restricted requests stay hidden from them unless an
+-- admin grants access. Everything admin-only keeps checking has_role(..., 'admin').
+CREATE TABLE public.restricted_access_grants (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.restricted_access_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view restricted access grants"
+  ON public.restricted_access_grants FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Reviewers can view own restricted access grant"
+  ON public.restricted_access_grants FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can grant restricted access to reviewers"
+  ON public.restricted_access_grants FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND public.has_role(user_id, 'reviewer')
+    AND granted_by = auth.uid()
+  );
+
+CREATE POLICY "Admins can revoke restricted access"
+  ON public.restricted_access_grants FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Whether _user_id reviews the request: a reviewer who leads or co-reviews it, and
+-- for restricted requests also holds a grant. Security definer so policies on the
+-- request's own tables can use it without recursing.
+CREATE OR REPLACE FUNCTION public.can_review_request(_user_id UUID, _request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'reviewer') AND EXISTS (
+    SELECT 1
+    FROM public.project_requests r
+    WHERE r.id = _request_id
+      AND r.status <> 'draft'
+      AND (
+        r.assigned_to = _user_id
+        OR EXISTS (
+          SELECT 1 FROM public.request_co_reviewers c
+          WHERE c.request_id = r.id AND c.user_id = _user_id
+        )
+      )
+      AND (
+        r.confidentiality_level <> 'restricted'
+        OR EXISTS (SELECT 1 FROM public.restricted_access_grants g WHERE g.user_id = _user_id)
+      )
+  );
+$$;
+
+CREATE POLICY "Reviewers can view assigned requests"
+  ON public.project_requests FOR SELECT
+  USING (public.can_review_request(auth.uid(), id));
+
+CREATE POLICY "Reviewers can view comments on assigned requests"
+  ON public.comments FOR SELECT
+  USING (public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can comment on assigned requests"
+  ON public.comments FOR INSERT
+  WITH CHECK (auth.uid() = author_id AND public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can view attachments on assigned requests"
+  ON public.request_attachments FOR SELECT
+  USING (public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can view files on assigned requests"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'request-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.request_attachments a
+      WHERE a.file_path = name AND public.can_review_request(auth.uid(), a.request_id)
+    )
+  );
+
+CREATE POLICY "Reviewers can view status history on assigned requests"
+  ON public.request_status_history FOR SELECT
+  USING (public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can view revisions of assigned requests"
+  ON public.request_revisions FOR SELECT
+  USING (public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can view own revision views"
+  ON public.request_revision_views FOR SELECT
+  USING (auth.uid() = user_id AND public.has_role(auth.uid(), 'reviewer'));
+
+CREATE POLICY "Reviewers can insert own revision views"
+  ON public.request_revision_views FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can update own revision views"
+  ON public.request_revision_views FOR UPDATE
+  USING (auth.uid() = user_id AND public.has_role(auth.uid(), 'reviewer'));
+
+CREATE POLICY "Reviewers can view co-reviewers on assigned requests"
+  ON public.request_co_reviewers FOR SELECT
+  USING (public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can view search documents of assigned requests"
+  ON public.request_search_documents FOR SELECT
+  USING (public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can view scoring criteria"
+  ON public.scoring_criteria FOR SELECT
+  USING (public.has_role(auth.uid(), 'reviewer'));
+
+CREATE POLICY "Reviewers can view scores on assigned requests"
+  ON public.request_scores FOR SELECT
+  USING (public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can score assigned requests"
+  ON public.request_scores FOR INSERT
+  WITH CHECK (auth.uid() = reviewer_id AND public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can update own scores"
+  ON public.request_scores FOR UPDATE
+  USING (auth.uid() = reviewer_id AND public.can_review_request(auth.uid(), request_id));
+
+CREATE POLICY "Reviewers can delete own scores"
+  ON public.request_scores FOR DELETE
+  USING (auth.uid() = reviewer_id AND public.can_review_request(auth.uid(), request_id));
+
+-- Names of the other staff, and of the people whose requests they review
+CREATE POLICY "Reviewers can view staff roles"
+  ON public.user_roles FOR SELECT
+  USING (public.has_role(auth.uid(), 'reviewer') AND role IN ('admin', 'reviewer'));
+
+CREATE POLICY "Reviewers can view staff and requester profiles"
+  ON public.profiles FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'reviewer')
+    AND (
+      public.has_role(user_id, 'admin')
+      OR public.has_role(user_id, 'reviewer')
+      OR EXISTS (SELECT 1 FROM public.project_requests r WHERE r.user_id = profiles.user_id)
+    )
+  );
+
+-- Reviewers can be made lead or co-reviewer like admins
+CREATE OR REPLACE FUNCTION public.enforce_assignment_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign reviewers';
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL
+    AND NOT public.has_role(NEW.assigned_to, 'admin')
+    AND NOT public.has_role(NEW.assigned_to, 'reviewer')
+  THEN
+    RAISE EXCEPTION 'Requests can only be assigned to admins and reviewers';
+  END IF;
+
+  NEW.assigned_at := CASE WHEN NEW.assigned_to IS NULL THEN NULL ELSE now() END;
+
+  -- The new lead doesn't also need to be listed as a co-reviewer
+  DELETE FROM public.request_co_reviewers
+  WHERE request_id = NEW.id AND user_id = NEW.assigned_to;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY "Admins can add admin co-reviewers" ON public.request_co_reviewers;
+
+CREATE POLICY "Admins can add staff co-reviewers"
+  ON public.request_co_reviewers FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND (public.has_role(user_id, 'admin') OR public.has_role(user_id, 'reviewer'))
+    AND added_by = auth.uid()
+  );
+
+-- Requester replies also reach the assigned reviewers who are not admins
+CREATE OR REPLACE FUNCTION public.handle_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_owner_id UUID;
+  request_assignee_id UUID;
+  author_name TEXT;
+  request_title TEXT;
+BEGIN
+  -- A comment left with a status change is already covered by that notification
+  IF NEW.comment = current_setting('app.transition_comment', true) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id, assigned_to, title INTO request_owner_id, request_assignee_id, request_title
+  FROM public.project_requests
+  WHERE id = NEW.request_id;
+
+  SELECT full_name INTO author_name
+  FROM public.profiles
+  WHERE user_id = NEW.author_id;
+
+  IF NEW.author_role = 'admin' THEN
+    INSERT INTO public.notifications (user_id, request_id, comment_id, type, actor_id, message)
+    VALUES (
+      request_owner_id,
+      NEW.request_id,
+      NEW.id,
+      'comment',
+      NEW.author_id,
+      'Admin ' || COALESCE(author_name, 'Unknown') || ' commented on your request: "' || request_title || '"'
+    );
+  ELSE
+    WITH reviewers AS (
+      SELECT request_assignee_id AS user_id
+      WHERE request_assignee_id IS NOT NULL
+      UNION
+      SELECT user_id
+      FROM public.request_co_reviewers
+      WHERE request_id = NEW.request_id
+    ),
+    participants AS (
+      SELECT user_id FROM reviewers
+      UNION
+      SELECT author_id
+      FROM public.comments
+      WHERE request_id = NEW.request_id AND author_role = 'admin' AND NOT EXISTS (SELECT 1 FROM reviewers)
+      UNION
+      SELECT changed_by
+      FROM public.request_status_history
+      WHERE request_id = NEW.request_id AND changed_by IS NOT NULL AND changed_by <> request_owner_id
+        AND NOT EXISTS (SELECT 1 FROM reviewers)
+    ),
+    recipients AS (
+      SELECT user_id FROM participants
+      WHERE public.has_role(user_id, 'admin') OR public.has_role(user_id, 'reviewer')
+      UNION
+      SELECT user_id FROM public.user_roles
+      WHERE role = 'admin' AND NOT EXISTS (SELECT 1 FROM participants)
+    )
+    INSERT INTO public.notifications (user_id, request_id, comment_id, type, actor_id, message)
+    SELECT
+      recipients.user_id,
+      NEW.request_id,
+      NEW.id,
+      'comment',
+      NEW.author_id,
+      COALESCE(author_name, 'The requester') || ' replied on "' || request_title || '"'
+    FROM recipients
+    WHERE recipients.user_id <> NEW.author_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.get_request_decision(_request_id UUID)
+RETURNS TABLE (
+  status TEXT,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decided_by UUID,
+  decided_by_name TEXT,
+  comment TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT h.to_status, h.created_at, h.changed_by, p.full_name, h.comment
+  FROM public.project_requests r
+  JOIN public.request_status_history h ON h.request_id = r.id AND h.to_status = r.status
+  JOIN public.request_statuses s ON s.key = r.status AND s.is_terminal
+  LEFT JOIN public.profiles p ON p.user_id = h.changed_by
+  WHERE r.id = _request_id
+    AND public.has_role(h.changed_by, 'admin')
+    AND (
+      public.has_role(auth.uid(), 'admin')
+      OR r.user_id = auth.uid()
+      OR public.can_review_request(auth.uid(), r.id)
+    )
+  ORDER BY h.created_at DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_reviewer_workload(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  user_id UUID,
+  open_assigned_count INTEGER,
+  open_co_review_count INTEGER,
+  decided_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH open_requests AS (
+    SELECT r.id, r.assigned_to
+    FROM public.project_requests r
+    JOIN public.request_statuses s ON s.key = r.status
+    WHERE r.status <> 'draft'
+      AND r.archived_at IS NULL
+      AND NOT s.is_terminal
+  )
+  SELECT
+    ur.user_id,
+    (SELECT count(*) FROM open_requests o WHERE o.assigned_to = ur.user_id)::INTEGER,
+    (
+      SELECT count(*)
+      FROM open_requests o
+      JOIN public.request_co_reviewers c ON c.request_id = o.id
+      WHERE c.user_id = ur.user_id
+    )::INTEGER,
+    (
+      SELECT count(*)
+      FROM public.request_status_history h
+      WHERE h.changed_by = ur.user_id
+        AND h.to_status IN ('approved', 'rejected')
+        AND h.created_at >= _from
+        AND h.created_at < _to
+    )::INTEGER
+  FROM public.user_roles ur
+  WHERE ur.role IN ('admin', 'reviewer');
+$$;
+
+-- Staff who lose their role or account also lose any restricted access grant
+CREATE OR REPLACE FUNCTION public.release_admin_duties(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.project_requests r
+  SET assigned_to = NULL
+  FROM public.request_statuses s
+  WHERE s.key = r.status
+    AND r.assigned_to = _user_id
+    AND NOT s.is_terminal;
+
+  DELETE FROM public.request_co_reviewers c
+  USING public.project_requests r, public.request_statuses s
+  WHERE r.id = c.request_id
+    AND s.key = r.status
+    AND c.user_id = _user_id
+    AND NOT s.is_terminal;
+
+  DELETE FROM public.request_required_approvers a
+  USING public.project_requests r, public.request_statuses s
+  WHERE r.id = a.request_id
+    AND s.key = r.status
+    AND a.user_id = _user_id
+    AND NOT s.is_terminal;
+
+  DELETE FROM public.export_clearances WHERE user_id = _user_id;
+  DELETE FROM public.restricted_access_grants WHERE user_id = _user_id;
+END;
+$$;
+
+-- Admins who become reviewers keep their open reviews but give up approvals and
+-- export clearance; requesters never hold any of it
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF public.has_role(_user_id, _role) THEN
+    RETURN;
+  END IF;
+
+  IF public.has_role(_user_id, 'admin') THEN
+    PERFORM public.ensure_other_active_admin(_user_id);
+  END IF;
+
+  IF _role = 'user' THEN
+    PERFORM public.release_admin_duties(_user_id);
+  ELSIF _role = 'reviewer' THEN
+    DELETE FROM public.request_required_approvers a
+    USING public.project_requests r, public.request_statuses s
+    WHERE r.id = a.request_id
+      AND s.key = r.status
+      AND a.user_id = _user_id
+      AND NOT s.is_terminal;
+
+    DELETE FROM public.export_clearances WHERE user_id = _user_id;
+  ELSE
+    DELETE FROM public.restricted_access_grants WHERE user_id = _user_id;
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_active(_user_id UUID, _active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can deactivate accounts';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF _active THEN
+    DELETE FROM public.account_deactivations WHERE user_id = _user_id;
+    UPDATE auth.users SET banned_until = NULL WHERE id = _user_id;
+    RETURN;
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.account_deactivations WHERE user_id = _user_id) THEN
+    RETURN;
+  END IF;
+
+  IF public.has_role(_user_id, 'admin') THEN
+    PERFORM public.ensure_other_active_admin(_user_id);
+  END IF;
+
+  IF public.has_role(_user_id, 'admin') OR public.has_role(_user_id, 'reviewer') THEN
+    PERFORM public.release_admin_duties(_user_id);
+  END IF;
+
+  INSERT INTO public.account_deactivations (user_id, deactivated_by) VALUES (_user_id, auth.uid());
+  UPDATE auth.users SET banned_until = 'infinity' WHERE id = _user_id;
+  DELETE FROM auth.sessions WHERE user_id = _user_id;
+END;
+$$;